@@ -38,9 +38,8 @@ class ChatResponse(BaseModel):
     response: str
 
 
-class InterventionRequest(BaseModel):
-    action: str
-    details: Optional[str] = None
+class AdvanceRequest(BaseModel):
+    interventions: list[UserIntervention] = []
 
 
 @app.get("/")
@@ -65,21 +64,23 @@ async def get_ecosystem():
 
 
 @app.post("/ecosystem/advance", response_model=SimulationResult)
-async def advance_turn(intervention: Optional[InterventionRequest] = None):
-    """Advance the simulation by one turn, optionally with a user intervention."""
+async def advance_turn(request: Optional[AdvanceRequest] = None):
+    """Advance the simulation by one turn, applying any queued user interventions in order."""
     global current_ecosystem
 
     if current_ecosystem is None:
         raise HTTPException(status_code=404, detail="No ecosystem exists. Create one first.")
 
-    user_intervention = None
-    if intervention:
-        user_intervention = UserIntervention(
-            action=intervention.action,
-            details=intervention.details
-        )
+    base = current_ecosystem
+    result = await advance_simulation(
+        base,
+        request.interventions if request else []
+    )
 
-    result = await advance_simulation(current_ecosystem, user_intervention)
+    # The state was replaced while the AI was working (the client cancelled
+    # the turn and loaded its own state back) - don't commit a stale turn
+    if current_ecosystem is not base:
+        raise HTTPException(status_code=409, detail="The ecosystem changed while this turn was running.")
     current_ecosystem = result.new_state
 
     return result
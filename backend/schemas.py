@@ -4,7 +4,7 @@ Defines the structure of world state, species, and simulation events.
 """
 
 from pydantic import BaseModel, Field
-from typing import Optional
+from typing import Annotated, Literal, Optional, Union
 from enum import Enum
 
 
@@ -80,7 +80,60 @@ class SimulationResult(BaseModel):
     warnings: list[str] = Field(default=[], description="Potential issues like extinction risk")
 
 
-class UserIntervention(BaseModel):
-    """A user action to modify the ecosystem."""
-    action: str = Field(description="What the user wants to do")
-    details: Optional[str] = Field(default=None, description="Additional context")
+class TileArea(BaseModel):
+    """A square of tiles around a center tile."""
+    x: int = Field(description="Center X coordinate")
+    y: int = Field(description="Center Y coordinate")
+    radius: int = Field(default=0, ge=0, description="Tiles in each direction from the center (0 = one tile)")
+
+
+Intensity = Literal["low", "medium", "high"]
+
+
+class IntroduceSpecies(BaseModel):
+    """Introduce a designed species."""
+    kind: Literal["introduce_species"]
+    species: Species = Field(description="Full definition of the species being introduced")
+    count: int = Field(description="How many individuals to introduce", ge=1)
+    area: Optional[TileArea] = Field(default=None, description="Where to release them")
+
+
+class RemoveSpecies(BaseModel):
+    """Remove some or all of a species."""
+    kind: Literal["remove_species"]
+    target: str = Field(description="Name of the species to remove")
+    count: Optional[int] = Field(default=None, ge=1, description="How many to remove (all when omitted)")
+    area: Optional[TileArea] = Field(default=None, description="Where to remove them from")
+
+
+class NaturalDisaster(BaseModel):
+    """Trigger a natural disaster."""
+    kind: Literal["natural_disaster"]
+    disaster: str = Field(description="Type of disaster, e.g. Wildfire")
+    intensity: Intensity = "medium"
+    duration: int = Field(default=1, ge=1, description="Turns the effect lasts")
+    area: Optional[TileArea] = Field(default=None, description="Where it strikes")
+
+
+class ClimateChange(BaseModel):
+    """Shift the climate."""
+    kind: Literal["change_climate"]
+    event: str = Field(description="Type of climate event, e.g. Temperature Rise")
+    intensity: Intensity = "medium"
+    duration: int = Field(default=1, ge=1, description="Turns the effect lasts")
+
+
+class Calamity(BaseModel):
+    """A catastrophic event."""
+    kind: Literal["calamity"]
+    calamity: str = Field(description="Type of calamity, e.g. Meteor Strike")
+    intensity: Intensity = "high"
+    duration: int = Field(default=1, ge=1, description="Turns the effect lasts")
+    area: Optional[TileArea] = Field(default=None, description="Where it strikes")
+
+
+# A user action to modify the ecosystem, tagged by `kind`
+UserIntervention = Annotated[
+    Union[IntroduceSpecies, RemoveSpecies, NaturalDisaster, ClimateChange, Calamity],
+    Field(discriminator="kind"),
+]
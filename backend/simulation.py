@@ -13,6 +13,11 @@ from schemas import (
     EcosystemState,
     SimulationResult,
     UserIntervention,
+    IntroduceSpecies,
+    RemoveSpecies,
+    NaturalDisaster,
+    ClimateChange,
+    TileArea,
     Species,
     Tile,
     BiomeType,
@@ -181,12 +186,13 @@ def create_initial_ecosystem(grid_size: int = 8) -> EcosystemState:
 
 async def advance_simulation(
     current_state: EcosystemState,
-    intervention: UserIntervention | None = None
+    interventions: list[UserIntervention] | None = None
 ) -> SimulationResult:
     """
     Advance the ecosystem by one turn using Gemini 3 for reasoning.
-    Optionally apply a user intervention.
+    Optionally apply user interventions, in order.
     """
+    interventions = interventions or []
 
     prompt_parts = [
         f"Current ecosystem state (Turn {current_state.turn}):\n",
@@ -208,18 +214,22 @@ async def advance_simulation(
     for biome, count in biome_counts.items():
         prompt_parts.append(f"- {biome.value}: {count} tiles\n")
 
-    if intervention:
-        prompt_parts.append(f"\n**USER INTERVENTION**: {intervention.action}")
-        if intervention.details:
-            prompt_parts.append(f" ({intervention.details})")
-        prompt_parts.append("\n")
+    if interventions:
+        prompt_parts.append("\n**USER INTERVENTIONS** (apply all of them, in this order):\n")
+        for i, intervention in enumerate(interventions, start=1):
+            prompt_parts.append(f"{i}. {describe_intervention(intervention)}\n")
+            if isinstance(intervention, IntroduceSpecies):
+                prompt_parts.append(
+                    "   Introduced species definition (keep these exact traits and name): "
+                    f"{intervention.species.model_dump_json()}\n"
+                )
 
     prompt_parts.append("""
 Advance the simulation by one turn. Consider:
 1. How populations change based on predator-prey relationships
 2. Seasonal effects (next season if appropriate)
 3. Any natural events (storms, disease, migration)
-4. Effects of the user intervention if provided
+4. Effects of every user intervention if provided
 
 Return the complete new state with updated populations, any new events, and a narrative summary.""")
 
@@ -249,6 +259,14 @@ Return the complete new state with updated populations, any new events, and a na
     result = SimulationResult.model_validate_json(response.text)
     result.new_state.turn = current_state.turn + 1
 
+    # Designed species keep the user's traits no matter what Gemini returns
+    for intervention in interventions:
+        if isinstance(intervention, IntroduceSpecies):
+            result.new_state.species = apply_species_definition(
+                result.new_state.species,
+                intervention.species.model_copy(update={"population": intervention.count})
+            )
+
     # Update tiles based on species changes (Gemini doesn't manage tiles directly)
     result.new_state.tiles = update_tiles_from_state(
         current_state.tiles,
@@ -259,6 +277,72 @@ Return the complete new state with updated populations, any new events, and a na
     return result
 
 
+def describe_area(area: TileArea | None) -> str:
+    if area is None:
+        return ""
+    if area.radius == 0:
+        return f" at tile ({area.x}, {area.y})"
+    return f" within {area.radius} tile{'' if area.radius == 1 else 's'} of ({area.x}, {area.y})"
+
+
+def describe_duration(turns: int) -> str:
+    return f", lasting {turns} turns" if turns > 1 else ""
+
+
+def describe_intervention(intervention: UserIntervention) -> str:
+    """
+    Render a structured intervention as prose for the prompt.
+    Keep in sync with describeIntervention in frontend/src/interventions.ts.
+    """
+    if isinstance(intervention, IntroduceSpecies):
+        sp = intervention.species
+        return f"Introduce {intervention.count} {sp.name} ({sp.diet.value}) to the ecosystem{describe_area(intervention.area)}"
+    if isinstance(intervention, RemoveSpecies):
+        count = intervention.count if intervention.count is not None else "all"
+        return f"Remove {count} {intervention.target} from the ecosystem{describe_area(intervention.area)}"
+    if isinstance(intervention, NaturalDisaster):
+        return (
+            f"Trigger a {intervention.intensity}-intensity {intervention.disaster}"
+            f"{describe_area(intervention.area)}{describe_duration(intervention.duration)}"
+        )
+    if isinstance(intervention, ClimateChange):
+        return (
+            f"{intervention.event} ({intervention.intensity} intensity) affects the ecosystem"
+            f"{describe_duration(intervention.duration)}"
+        )
+    return (
+        f"CALAMITY: {intervention.calamity} devastates the ecosystem"
+        f"{describe_area(intervention.area)}{describe_duration(intervention.duration)}! "
+        "This is a catastrophic event with severe consequences for all species."
+    )
+
+
+def apply_species_definition(
+    species: list[Species],
+    definition: Species
+) -> list[Species]:
+    """
+    Make sure an introduced species exists with its designed traits.
+    Gemini still decides the population if it kept the species; links to
+    the rest of the food web are made two-sided.
+    """
+    updated = []
+    introduced = None
+    for sp in species:
+        if sp.name.lower() == definition.name.lower():
+            introduced = definition.model_copy(update={"population": sp.population})
+            continue
+        new_sp = sp.model_copy(deep=True)
+        if sp.name in definition.prey and definition.name not in new_sp.predators:
+            new_sp.predators.append(definition.name)
+        if sp.name in definition.predators and definition.name not in new_sp.prey:
+            new_sp.prey.append(definition.name)
+        updated.append(new_sp)
+
+    updated.append(introduced or definition.model_copy(deep=True))
+    return updated
+
+
 def update_tiles_from_state(
     tiles: list[Tile],
     species: list[Species],
@@ -1,139 +1,440 @@
-import { useState, useEffect, useCallback } from 'react';
-import type { EcosystemState, SimulationEvent } from './types';
-import { createEcosystem, advanceTurn, loadEcosystem } from './api';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { EcosystemState, InterventionRequest, SimulationEvent, SimulationResult } from './types';
+import type { ProviderId, ResponseCorrections, SimulationProvider } from './api';
+import { ApiError, createHttpProvider, getStoredProviderId, onResponseCorrected, setStoredProviderId } from './api';
+import { createOfflineProvider } from './offline';
+import { createRecorder, createReplayProvider, parseRecording } from './replay';
 import Header from './components/Header';
 import EcosystemViewport from './components/EcosystemViewport';
+import type { CameraFocus } from './components/EcosystemViewport';
 import ControlPanel from './components/ControlPanel';
 import SpeciesPanel from './components/SpeciesPanel';
 import EventLog from './components/EventLog';
+import TileInspector from './components/TileInspector';
+import PopulationChart from './components/PopulationChart';
+import TimelinePanel from './components/TimelinePanel';
+import FoodWebPanel from './components/FoodWebPanel';
+import ChatPanel from './components/ChatPanel';
+import AutoPlayPanel from './components/AutoPlayPanel';
+import SaveSlotsPanel from './components/SaveSlotsPanel';
+import ComparisonView from './components/ComparisonView';
+import ScenarioEditor from './components/ScenarioEditor';
+import InterventionLog from './components/InterventionLog';
+import SchedulePanel from './components/SchedulePanel';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import type { ComparisonSource } from './components/ComparisonView';
+import { findTile } from './tileGrid';
+import type { Timeline } from './timeline';
+import { createTimeline, appendTurn, currentNode, rewindTo, pathTo } from './timeline';
+import { createSaveFile, downloadJson, downloadSaveFile, parseSaveFile, readSaveData } from './saveFile';
+import type { LoadedSave } from './saveFile';
+import {
+  AUTOSAVE_SLOT_ID,
+  captureThumbnail,
+  createSlot,
+  getAutosaveInterval,
+  getLatestSlot,
+  putSlot,
+} from './saveSlots';
+import type { SaveSlot } from './saveSlots';
+import { interventionLog } from './interventions';
+import { activeClimate } from './weather';
+import type { ScheduleTrigger, ScheduledIntervention } from './scheduler';
+import { collectDue, createScheduled, restoreFired } from './scheduler';
+import { useAutoPlay } from './autoPlay';
+import type { AutoPlaySettings } from './autoPlay';
 
-// Save file format
-interface SaveFile {
-  version: 1;
-  savedAt: string;
-  ecosystem: EcosystemState;
-  events: SimulationEvent[];
-  narration: string;
+// Gemini backend or the local rules engine; replays are created on demand
+export type ProviderSet = Record<'http' | 'offline', SimulationProvider>;
+
+const DEFAULT_PROVIDERS: ProviderSet = {
+  http: createHttpProvider(),
+  offline: createOfflineProvider(),
+};
+
+function storedProvider(providers: ProviderSet): SimulationProvider {
+  const id = getStoredProviderId();
+  return id === 'offline' ? providers.offline : providers.http;
+}
+
+// Repaired responses kept for the diagnostics panel
+const MAX_DIAGNOSTICS = 20;
+
+interface AppProps {
+  // Swap in other providers, e.g. fakes for component tests. Read once on
+  // mount - later changes are ignored.
+  providers?: ProviderSet;
 }
 
-function App() {
+function App({ providers: initialProviders = DEFAULT_PROVIDERS }: AppProps) {
+  const [providers] = useState(initialProviders);
   const [ecosystem, setEcosystem] = useState<EcosystemState | null>(null);
+  const [timeline, setTimeline] = useState<Timeline | null>(null);
+  const [forkName, setForkName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [events, setEvents] = useState<SimulationEvent[]>([]);
   const [narration, setNarration] = useState('');
   const [warnings, setWarnings] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(true);
+  const [selectedTile, setSelectedTile] = useState<[number, number] | null>(null);
+  // Event hovered in the event log, and the last "fly to" request
+  const [highlightedEvent, setHighlightedEvent] = useState<number | null>(null);
+  const [cameraFocus, setCameraFocus] = useState<CameraFocus | null>(null);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [slotsOpen, setSlotsOpen] = useState(false);
+  const [scenarioOpen, setScenarioOpen] = useState(false);
+  const [resumeSlot, setResumeSlot] = useState<SaveSlot | null>(null);
+  const [schedule, setSchedule] = useState<ScheduledIntervention[]>([]);
+  const [scheduleDraft, setScheduleDraft] = useState<InterventionRequest | null>(null);
+  // Lets the user cancel a manual turn that's taking too long
+  const [turnController, setTurnController] = useState<AbortController | null>(null);
+  // Repairs made to backend responses, newest first
+  const [diagnostics, setDiagnostics] = useState<ResponseCorrections[]>([]);
+  // Mirrors `schedule` so auto-play's long-running loop always sees the latest
+  const scheduleRef = useRef<ScheduledIntervention[]>([]);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [provider, setProvider] = useState<SimulationProvider>(() => storedProvider(providers));
+  // Captures every turn, whichever provider runs it, for "Export recording"
+  const [recorder] = useState(createRecorder);
+
+  const sim = useMemo(() => recorder.wrap(provider), [recorder, provider]);
 
   const toggleSidebar = useCallback(() => {
     setSidebarOpen(prev => !prev);
   }, []);
 
-  // Initialize ecosystem on mount
-  useEffect(() => {
-    initializeEcosystem();
+  // Clicking the selected tile again clears the selection
+  const handleTileSelect = useCallback((x: number, y: number) => {
+    setSelectedTile(prev => (prev && prev[0] === x && prev[1] === y ? null : [x, y]));
   }, []);
 
-  const initializeEcosystem = async () => {
+  const clearSelectedTile = useCallback(() => {
+    setSelectedTile(null);
+  }, []);
+
+  const initializeEcosystem = useCallback(async () => {
+    setResumeSlot(null);
     setIsLoading(true);
     setError(null);
     try {
-      const state = await createEcosystem(8);
+      // The stored provider rather than `sim`, so this doesn't change with
+      // every provider switch (replays only start from a loaded recording anyway)
+      const state = await recorder.wrap(storedProvider(providers)).createEcosystem(8);
+      const intro = 'A new ecosystem has been created. Click "Advance Turn" to begin the simulation.';
       setEcosystem(state);
-      setNarration('A new ecosystem has been created. Click "Advance Turn" to begin the simulation.');
+      setTimeline(createTimeline({ state, events: [], narration: intro, warnings: [], interventions: [] }));
+      setSelectedTile(null);
+      setEvents([]);
+      setNarration(intro);
+      setWarnings([]);
     } catch (err) {
-      setError('Failed to connect to backend. Make sure the server is running on localhost:8000');
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to create an ecosystem: ${errorMessage}`);
       console.error(err);
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [providers, recorder]);
 
-  const handleAdvanceTurn = async (intervention?: { action: string; details?: string }) => {
-    if (!ecosystem) return;
+  // On mount, offer to resume the most recent browser save before creating a
+  // fresh ecosystem
+  useEffect(() => {
+    getLatestSlot()
+      .catch((err) => {
+        console.error('Could not read save slots:', err);
+        return null;
+      })
+      .then((latest) => {
+        if (latest) {
+          setResumeSlot(latest);
+        } else {
+          initializeEcosystem();
+        }
+      });
+  }, [initializeEcosystem]);
+
+  useEffect(() => onResponseCorrected((report) => {
+    setDiagnostics(prev => [report, ...prev].slice(0, MAX_DIAGNOSTICS));
+  }), []);
 
+  // Run one turn from `base` and apply the result. Returns null on failure or
+  // cancellation. Only uses functional state updates, so auto-play can call it
+  // from a long-running loop.
+  const runTurn = async (
+    base: EcosystemState,
+    interventions: InterventionRequest[] = [],
+    signal?: AbortSignal
+  ): Promise<SimulationResult | null> => {
     setIsLoading(true);
     setError(null);
     try {
-      const result = await advanceTurn(intervention);
+      const result = await sim.advanceTurn(interventions, signal);
       setEcosystem(result.new_state);
+      setTimeline(prev => prev && appendTurn(prev, {
+        state: result.new_state,
+        events: result.events,
+        narration: result.narration,
+        warnings: result.warnings,
+        interventions,
+      }, forkName));
+      setForkName('');
       setEvents(result.events);
       setNarration(result.narration);
       setWarnings(result.warnings);
+      autosave(result.new_state, result.events, result.narration);
+      return result;
     } catch (err) {
-      setError('Failed to advance simulation. Check the backend logs.');
-      console.error(err);
+      // The backend may still be working on a cancelled or timed-out turn.
+      // Loading `base` replaces its state, which stops that turn from committing.
+      if (signal?.aborted || (err instanceof ApiError && err.timedOut)) {
+        await sim.loadEcosystem(base).catch(console.error);
+      }
+      if (!signal?.aborted) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        setError(`Failed to advance simulation: ${errorMessage}`);
+        console.error(err);
+      }
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateSchedule = (next: ScheduledIntervention[]) => {
+    scheduleRef.current = next;
+    setSchedule(next);
+  };
+
+  // Run a turn with any scheduled interventions that are due injected ahead
+  // of the user's own
+  const runScheduledTurn = async (
+    base: EcosystemState,
+    interventions: InterventionRequest[],
+    signal?: AbortSignal
+  ): Promise<SimulationResult | null> => {
+    const { due, fired, remaining } = collectDue(scheduleRef.current, base);
+    updateSchedule(remaining);
+    const result = await runTurn(base, [...due, ...interventions], signal);
+    // The turn didn't happen - keep them pending, along with any schedule
+    // changes made while it ran
+    if (!result) updateSchedule(restoreFired(scheduleRef.current, fired));
+    return result;
+  };
+
+  const handleAdvanceTurn = async (interventions: InterventionRequest[]) => {
+    if (!ecosystem) return false;
+    const controller = new AbortController();
+    setTurnController(controller);
+    const result = await runScheduledTurn(ecosystem, interventions, controller.signal);
+    setTurnController(null);
+    return result !== null;
+  };
+
+  const handleSchedule = (trigger: ScheduleTrigger, repeat: boolean) => {
+    if (!ecosystem || !scheduleDraft) return;
+    const entry = createScheduled(`schedule-${Date.now()}`, scheduleDraft, trigger, repeat, ecosystem);
+    updateSchedule([...scheduleRef.current, entry]);
+    setScheduleDraft(null);
+  };
+
+  const autoPlay = useAutoPlay((state, signal) => runScheduledTurn(state, [], signal));
+
+  // Switch simulation provider, carrying the current ecosystem over
+  const handleProviderChange = async (id: ProviderId) => {
+    if (id === 'replay') return;
+    setStoredProviderId(id);
+    setProvider(providers[id]);
+    if (!ecosystem) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      await recorder.wrap(providers[id]).loadEcosystem(ecosystem);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to switch simulation: ${errorMessage}`);
+      console.error('Switch error:', err);
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Start over on the in-browser engine, e.g. when there's no backend to reach
+  const handleUseOffline = () => {
+    setStoredProviderId('offline');
+    setProvider(providers.offline);
+    initializeEcosystem();
+  };
+
+  // Play back a recording from its first turn
+  const handleLoadRecording = async (file: File) => {
+    try {
+      const replay = createReplayProvider(parseRecording(await file.text()));
+      setProvider(replay);
+      await applySave(async () => ({
+        ecosystem: await replay.createEcosystem(),
+        events: [],
+        narration: 'Replaying a recorded session. Advance to step through it.',
+      }), replay);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to load recording: ${errorMessage}`);
+      console.error('Recording error:', err);
+    }
+  };
+
+  const handleExportRecording = () => {
+    const recording = recorder.recording();
+    if (!recording) return;
+    const last = recording.turns.at(-1)?.result.new_state.turn ?? recording.initial.turn;
+    downloadJson(recording, `ecosim-recording-turn${recording.initial.turn}-${last}.json`);
+  };
+
+  const handleStartAutoPlay = (settings: AutoPlaySettings) => {
+    if (!ecosystem) return;
+    autoPlay.start(ecosystem, warnings, settings);
+  };
+
+  // Rewind to an earlier turn (on any branch) and push it to the backend
+  const handleRewind = async (nodeId: string) => {
+    const node = timeline?.nodes[nodeId];
+    if (!node) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const loadedState = await sim.loadEcosystem(node.state);
+      setEcosystem(loadedState);
+      setTimeline(prev => prev && rewindTo(prev, nodeId));
+      setEvents(node.events);
+      setNarration(node.narration);
+      setWarnings(node.warnings);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to rewind: ${errorMessage}`);
+      console.error('Rewind error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Write the autosave slot every N turns (interval read fresh each time so
+  // auto-play picks up changes mid-run)
+  const autosave = (state: EcosystemState, turnEvents: SimulationEvent[], turnNarration: string) => {
+    const interval = getAutosaveInterval();
+    if (interval <= 0 || state.turn % interval !== 0) return;
+
+    const save = createSaveFile(state, turnEvents, turnNarration);
+    putSlot(createSlot(AUTOSAVE_SLOT_ID, 'Autosave', save, captureThumbnail(canvasRef.current), true))
+      .catch((err) => console.error('Autosave failed:', err));
+  };
+
+  const handleSaveSlot = async (name: string, id = `slot-${Date.now()}`) => {
+    if (!ecosystem) return;
+    const save = createSaveFile(ecosystem, events, narration);
+    await putSlot(createSlot(id, name, save, captureThumbnail(canvasRef.current)));
+  };
+
   // Save ecosystem to file
   const handleSave = () => {
     if (!ecosystem) return;
 
-    const saveData: SaveFile = {
-      version: 1,
-      savedAt: new Date().toISOString(),
-      ecosystem,
-      events,
-      narration,
-    };
-
-    const blob = new Blob([JSON.stringify(saveData, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `ecosim-turn${ecosystem.turn}-${ecosystem.season}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    const saveData = createSaveFile(ecosystem, events, narration);
+    downloadSaveFile(saveData, `ecosim-turn${ecosystem.turn}-${ecosystem.season}.json`);
   };
 
   // Load ecosystem from file
   const handleLoad = async (file: File) => {
+    await applySave(async () => parseSaveFile(await file.text()));
+  };
+
+  const handleLoadSlot = async (slot: SaveSlot) => {
+    setSlotsOpen(false);
+    await applySave(async () => readSaveData(slot.save));
+  };
+
+  const handleLoadScenario = async (state: EcosystemState) => {
+    // Keep the editor open on failure so the draft isn't lost
+    const loaded = await applySave(async () => ({ ecosystem: state, events: [], narration: 'Custom scenario loaded.' }));
+    if (loaded) setScenarioOpen(false);
+  };
+
+  // Push a save into the simulation and start a fresh timeline from it.
+  // Resolves to whether the load succeeded. A replay can only load its own
+  // states, so saves go back to the stored provider.
+  const applySave = async (
+    readSave: () => Promise<LoadedSave>,
+    target: SimulationProvider = provider.id === 'replay' ? storedProvider(providers) : provider
+  ): Promise<boolean> => {
+    setResumeSlot(null);
     setIsLoading(true);
     setError(null);
 
     try {
-      const text = await file.text();
-      let saveData: SaveFile;
+      const saveData = await readSave();
 
-      try {
-        saveData = JSON.parse(text);
-      } catch {
-        throw new Error('Invalid JSON file');
-      }
-
-      // Check if it's our save format or raw ecosystem state
-      let ecosystemToLoad: EcosystemState;
-
-      if (saveData.version && saveData.ecosystem) {
-        // It's our save format
-        ecosystemToLoad = saveData.ecosystem;
-      } else if ((saveData as unknown as EcosystemState).species && (saveData as unknown as EcosystemState).tiles) {
-        // It's a raw ecosystem state (maybe exported differently)
-        ecosystemToLoad = saveData as unknown as EcosystemState;
-      } else {
-        throw new Error('Invalid save file format - missing required data');
-      }
-
-      // Load into backend
-      const loadedState = await loadEcosystem(ecosystemToLoad);
+      // Load into the simulation
+      const loadedState = await recorder.wrap(target).loadEcosystem(saveData.ecosystem);
+      setProvider(target);
+      const loadedEvents = saveData.events;
+      const loadedNarration = saveData.narration || 'Save file loaded successfully!';
       setEcosystem(loadedState);
-      setEvents(saveData.events || []);
-      setNarration(saveData.narration || 'Save file loaded successfully!');
+      setTimeline(createTimeline({
+        state: loadedState,
+        events: loadedEvents,
+        narration: loadedNarration,
+        warnings: [],
+        interventions: [],
+      }));
+      setForkName('');
+      setSelectedTile(null);
+      setEvents(loadedEvents);
+      setNarration(loadedNarration);
       setWarnings([]);
+      return true;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
       setError(`Failed to load: ${errorMessage}`);
       console.error('Load error:', err);
+      return false;
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Resume prompt
+  if (!ecosystem && resumeSlot && !isLoading) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-zinc-950">
+        <div className="text-center max-w-sm">
+          <div className="text-xl font-bold mb-4">🌍 Welcome back</div>
+          {resumeSlot.thumbnail && (
+            <img src={resumeSlot.thumbnail} alt="" className="w-full rounded-lg border border-zinc-700 mb-3" />
+          )}
+          <div className="text-sm text-zinc-400 mb-4">
+            {resumeSlot.name} · Turn {resumeSlot.turn} · <span className="capitalize">{resumeSlot.season}</span>
+            <div className="text-xs text-zinc-600">{new Date(resumeSlot.savedAt).toLocaleString()}</div>
+          </div>
+          <div className="flex gap-2 justify-center">
+            <button
+              onClick={() => handleLoadSlot(resumeSlot)}
+              className="bg-cyan-600 hover:bg-cyan-500 text-white px-4 py-2 rounded"
+            >
+              Resume last session
+            </button>
+            <button
+              onClick={initializeEcosystem}
+              className="bg-zinc-800 hover:bg-zinc-700 border border-zinc-600 px-4 py-2 rounded"
+            >
+              New ecosystem
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Loading state
   if (!ecosystem && isLoading) {
     return (
@@ -153,12 +454,22 @@ function App() {
         <div className="text-center max-w-md">
           <div className="text-4xl mb-4">⚠️</div>
           <div className="text-red-400 mb-4">{error}</div>
-          <button
-            onClick={initializeEcosystem}
-            className="bg-cyan-600 hover:bg-cyan-500 text-white px-4 py-2 rounded"
-          >
-            Retry
-          </button>
+          <div className="flex gap-2 justify-center">
+            <button
+              onClick={initializeEcosystem}
+              className="bg-cyan-600 hover:bg-cyan-500 text-white px-4 py-2 rounded"
+            >
+              Retry
+            </button>
+            {provider.id !== 'offline' && (
+              <button
+                onClick={handleUseOffline}
+                className="bg-zinc-800 hover:bg-zinc-700 border border-zinc-600 px-4 py-2 rounded"
+              >
+                Use offline engine
+              </button>
+            )}
+          </div>
         </div>
       </div>
     );
@@ -166,6 +477,22 @@ function App() {
 
   if (!ecosystem) return null;
 
+  // States along the current branch, root first
+  const path = timeline ? pathTo(timeline, timeline.currentId) : [];
+  const history = timeline ? path.map(n => n.state) : [ecosystem];
+  const previousEcosystem = history.length > 1 ? history[history.length - 2] : null;
+
+  // Every turn on every branch can be compared, current state first
+  const comparisonSources: ComparisonSource[] = [
+    { id: 'current', label: `Current (T${ecosystem.turn})`, state: ecosystem },
+    ...(timeline
+      ? Object.values(timeline.nodes)
+          .sort((a, b) => a.branch.localeCompare(b.branch) || a.state.turn - b.state.turn)
+          .map(node => ({ id: node.id, label: `${node.branch} · T${node.state.turn}`, state: node.state }))
+      : []),
+  ];
+  const parentId = timeline?.nodes[timeline.currentId]?.parentId;
+
   return (
     <div className="w-full h-full flex flex-col bg-zinc-950">
       <Header
@@ -173,8 +500,43 @@ function App() {
         season={ecosystem.season}
         onSave={handleSave}
         onLoad={handleLoad}
+        onCompare={() => setCompareOpen(true)}
+        onOpenSlots={() => setSlotsOpen(true)}
+        onOpenScenario={() => setScenarioOpen(true)}
+        providerId={provider.id}
+        onProviderChange={handleProviderChange}
+        onLoadRecording={handleLoadRecording}
+        onExportRecording={handleExportRecording}
+        simulationLocked={isLoading || autoPlay.status !== 'idle'}
       />
 
+      {slotsOpen && (
+        <SaveSlotsPanel
+          onSaveNew={(name) => handleSaveSlot(name)}
+          onOverwrite={(slot) => handleSaveSlot(slot.name, slot.id)}
+          onLoad={handleLoadSlot}
+          onClose={() => setSlotsOpen(false)}
+        />
+      )}
+
+      {scenarioOpen && (
+        <ScenarioEditor
+          initial={ecosystem}
+          onLoad={handleLoadScenario}
+          onClose={() => setScenarioOpen(false)}
+          error={error}
+        />
+      )}
+
+      {compareOpen && (
+        <ComparisonView
+          sources={comparisonSources}
+          initialA={parentId ?? 'current'}
+          initialB="current"
+          onClose={() => setCompareOpen(false)}
+        />
+      )}
+
       {error && (
         <div className="bg-red-900/50 border-b border-red-700 px-4 py-2 text-sm text-red-200">
           {error}
@@ -186,7 +548,17 @@ function App() {
         <div className="flex-1 relative">
           <EcosystemViewport
             species={ecosystem.species}
+            tiles={ecosystem.tiles}
             season={ecosystem.season}
+            gridSize={ecosystem.grid_size}
+            selectedTile={selectedTile}
+            onTileSelect={handleTileSelect}
+            canvasRef={canvasRef}
+            events={events}
+            highlightedEvent={highlightedEvent}
+            cameraFocus={cameraFocus}
+            temperature={ecosystem.temperature}
+            climate={activeClimate(interventionLog(path), ecosystem.turn)}
           />
         </div>
 
@@ -222,18 +594,87 @@ function App() {
           <ControlPanel
             temperature={ecosystem.temperature}
             season={ecosystem.season}
-            selectedTile={null}
+            species={ecosystem.species}
+            selectedTile={selectedTile}
+            onClearTile={clearSelectedTile}
             onAdvanceTurn={handleAdvanceTurn}
-            isLoading={isLoading}
+            onSchedule={setScheduleDraft}
+            onCancel={turnController ? () => turnController.abort() : undefined}
+            isLoading={isLoading || autoPlay.status !== 'idle'}
+          />
+
+          <SchedulePanel
+            schedule={schedule}
+            draft={scheduleDraft}
+            turn={ecosystem.turn}
+            species={ecosystem.species}
+            onAdd={handleSchedule}
+            onCancelDraft={() => setScheduleDraft(null)}
+            onRemove={(id) => updateSchedule(scheduleRef.current.filter(e => e.id !== id))}
+          />
+
+          <AutoPlayPanel
+            species={ecosystem.species}
+            status={autoPlay.status}
+            progress={autoPlay.progress}
+            stopReason={autoPlay.stopReason}
+            disabled={isLoading}
+            onStart={handleStartAutoPlay}
+            onPause={autoPlay.pause}
+            onResume={autoPlay.resume}
+            onStop={autoPlay.stop}
           />
 
           <SpeciesPanel species={ecosystem.species} />
 
+          <PopulationChart history={history} />
+
+          <FoodWebPanel species={ecosystem.species} />
+
+          {timeline && (
+            <TimelinePanel
+              timeline={timeline}
+              forkName={forkName}
+              onForkNameChange={setForkName}
+              onRewind={handleRewind}
+              isLoading={isLoading || autoPlay.status !== 'idle'}
+            />
+          )}
+
+          <InterventionLog entries={interventionLog(path)} />
+
+          <TileInspector
+            tile={selectedTile ? findTile(ecosystem.tiles, selectedTile[0], selectedTile[1]) : null}
+            previousTile={
+              selectedTile && previousEcosystem
+                ? findTile(previousEcosystem.tiles, selectedTile[0], selectedTile[1])
+                : null
+            }
+            species={ecosystem.species}
+          />
+
+          <ChatPanel
+            species={ecosystem.species}
+            previousSpecies={previousEcosystem?.species ?? null}
+            events={events}
+            warnings={warnings}
+            onAsk={sim.chat}
+          />
+
+          {diagnostics.length > 0 && (
+            <DiagnosticsPanel reports={diagnostics} onClear={() => setDiagnostics([])} />
+          )}
+
           <div className="flex-1 min-h-48">
             <EventLog
+              turn={ecosystem.turn}
+              interventions={timeline ? currentNode(timeline).interventions : []}
               events={events}
               narration={narration}
               warnings={warnings}
+              highlightedEvent={highlightedEvent}
+              onHoverEvent={setHighlightedEvent}
+              onSelectEvent={(i) => setCameraFocus({ id: Date.now(), tiles: events[i].affected_tiles })}
             />
           </div>
         </div>
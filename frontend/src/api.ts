@@ -1,52 +1,243 @@
 import type { EcosystemState, SimulationResult, InterventionRequest } from './types';
+import type { ValidationIssue } from './schema';
+import { sanitizeEcosystemState, sanitizeSimulationResult } from './sanitize';
+
+// Everything the app needs from a simulation, whatever runs it
+export interface SimulationProvider {
+  id: ProviderId;
+  label: string;
+  // Every call can be cancelled through `signal`
+  createEcosystem(gridSize?: number, signal?: AbortSignal): Promise<EcosystemState>;
+  getEcosystem(signal?: AbortSignal): Promise<EcosystemState>;
+  // Interventions are applied in the order given
+  advanceTurn(interventions?: InterventionRequest[], signal?: AbortSignal): Promise<SimulationResult>;
+  chat(message: string, signal?: AbortSignal): Promise<string>;
+  loadEcosystem(state: EcosystemState, signal?: AbortSignal): Promise<EcosystemState>;
+}
+
+// http: the FastAPI + Gemini backend, offline: the in-browser rules engine,
+// replay: a recorded session played back
+export type ProviderId = 'http' | 'offline' | 'replay';
 
 // Use environment variable for API URL, fallback to localhost for development
 const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:8000';
 
-export async function createEcosystem(gridSize: number = 8): Promise<EcosystemState> {
-  const response = await fetch(`${API_BASE}/ecosystem/new?grid_size=${gridSize}`, {
-    method: 'POST',
-  });
-  if (!response.ok) throw new Error('Failed to create ecosystem');
-  return response.json();
+const PROVIDER_KEY = 'ecosim.simulationMode';
+
+// Default provider from VITE_SIMULATION_PROVIDER (http or offline)
+const ENV_PROVIDER: ProviderId = import.meta.env.VITE_SIMULATION_PROVIDER === 'offline' ? 'offline' : 'http';
+
+// The user's pick, kept in localStorage; falls back to the env default.
+// Replays need a recording loaded first, so they're never restored.
+export function getStoredProviderId(): ProviderId {
+  const stored = localStorage.getItem(PROVIDER_KEY);
+  return stored === 'http' || stored === 'offline' ? stored : ENV_PROVIDER;
 }
 
-export async function getEcosystem(): Promise<EcosystemState> {
-  const response = await fetch(`${API_BASE}/ecosystem`);
-  if (!response.ok) throw new Error('Failed to get ecosystem');
-  return response.json();
+export function setStoredProviderId(id: ProviderId): void {
+  if (id !== 'replay') localStorage.setItem(PROVIDER_KEY, id);
 }
 
-export async function advanceTurn(intervention?: InterventionRequest): Promise<SimulationResult> {
-  const response = await fetch(`${API_BASE}/ecosystem/advance`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: intervention ? JSON.stringify(intervention) : undefined,
-  });
-  if (!response.ok) throw new Error('Failed to advance turn');
-  return response.json();
+// What was repaired in one backend response (see sanitize.ts)
+export interface ResponseCorrections {
+  endpoint: string;
+  turn: number;
+  corrections: ValidationIssue[];
 }
 
-export async function chatAboutEcosystem(message: string): Promise<string> {
-  const response = await fetch(`${API_BASE}/ecosystem/chat`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ message }),
-  });
-  if (!response.ok) throw new Error('Failed to chat');
-  const data = await response.json();
-  return data.response;
+type CorrectionsListener = (report: ResponseCorrections) => void;
+
+const correctionsListeners = new Set<CorrectionsListener>();
+
+// Hear about every repaired response. Returns an unsubscribe function.
+export function onResponseCorrected(listener: CorrectionsListener): () => void {
+  correctionsListeners.add(listener);
+  return () => {
+    correctionsListeners.delete(listener);
+  };
 }
 
-export async function loadEcosystem(state: EcosystemState): Promise<EcosystemState> {
-  const response = await fetch(`${API_BASE}/ecosystem/load`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(state),
+function reportCorrections(endpoint: string, turn: number, corrections: ValidationIssue[]): void {
+  if (corrections.length === 0) return;
+  for (const listener of correctionsListeners) listener({ endpoint, turn, corrections });
+}
+
+// Validate a state from the backend, repairing what can be repaired
+function checkState(endpoint: string, data: unknown): EcosystemState {
+  const { state, corrections } = sanitizeEcosystemState(data);
+  reportCorrections(endpoint, state.turn, corrections);
+  return state;
+}
+
+// A failed backend call. `status` is null when no response arrived
+// (network failure or timeout); `detail` is FastAPI's error detail when present.
+export class ApiError extends Error {
+  status: number | null;
+  detail: string;
+  endpoint: string;
+  timedOut: boolean;
+
+  constructor(endpoint: string, status: number | null, detail: string, timedOut = false) {
+    super(describeFailure(status, detail, timedOut));
+    this.name = 'ApiError';
+    this.status = status;
+    this.detail = detail;
+    this.endpoint = endpoint;
+    this.timedOut = timedOut;
+  }
+}
+
+function describeFailure(status: number | null, detail: string, timedOut: boolean): string {
+  if (timedOut) return `The backend didn't respond in time (${detail})`;
+  if (status === null) return `Couldn't reach the backend - is the server running? (${detail})`;
+  if (status === 422) return `The backend rejected the request: ${detail}`;
+  if (status >= 500) return `The backend failed (${status}): ${detail}`;
+  return detail;
+}
+
+// FastAPI sends `detail` as a string, or a list of validation errors for 422s
+function readDetail(data: unknown, status: number): string {
+  const detail = (data as { detail?: unknown } | null)?.detail;
+  if (typeof detail === 'string') return detail;
+  if (Array.isArray(detail)) {
+    return detail
+      .map((d: { loc?: unknown[]; msg?: string }) => `${(d.loc ?? []).join('.')}: ${d.msg ?? 'invalid'}`)
+      .join('; ');
+  }
+  return `Server error: ${status}`;
+}
+
+export interface HttpProviderOptions {
+  baseUrl: string;
+  // Quick calls (get, load)
+  timeoutMs: number;
+  // Calls that wait on Gemini (create, advance, chat)
+  aiTimeoutMs: number;
+  // Extra attempts for idempotent calls, with exponential backoff
+  retries: number;
+  retryDelayMs: number;
+}
+
+const DEFAULT_HTTP_OPTIONS: HttpProviderOptions = {
+  baseUrl: API_BASE,
+  timeoutMs: 15_000,
+  aiTimeoutMs: Number(import.meta.env.VITE_API_TIMEOUT_MS) || 120_000,
+  retries: 2,
+  retryDelayMs: 500,
+};
+
+interface RequestOptions {
+  method?: 'GET' | 'POST';
+  body?: unknown;
+  signal?: AbortSignal;
+  timeoutMs: number;
+  // Only safe to repeat calls that don't change the simulation twice
+  idempotent?: boolean;
+}
+
+// Wait `ms`, rejecting straight away if the signal aborts
+function backoff(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    }, ms);
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
   });
+}
+
+// Network failures, timeouts, rate limits and server errors may pass on a retry
+function isRetryable(err: ApiError): boolean {
+  return err.status === null || err.status === 429 || err.status >= 500;
+}
+
+async function sendOnce<T>(url: string, endpoint: string, options: RequestOptions): Promise<T> {
+  const timeout = AbortSignal.timeout(options.timeoutMs);
+  const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: options.method ?? 'GET',
+      headers: options.body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      signal,
+    });
+  } catch (err) {
+    // The caller cancelled - pass their abort through untouched
+    if (options.signal?.aborted) throw err;
+    if (timeout.aborted) throw new ApiError(endpoint, null, `no response after ${options.timeoutMs / 1000}s`, true);
+    throw new ApiError(endpoint, null, err instanceof Error ? err.message : 'network error');
+  }
+
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.detail || `Server error: ${response.status}`);
+    const data = await response.json().catch(() => null);
+    throw new ApiError(endpoint, response.status, readDetail(data, response.status));
   }
   return response.json();
 }
+
+async function request<T>(baseUrl: string, endpoint: string, options: RequestOptions, retries: number, retryDelayMs: number): Promise<T> {
+  const attempts = options.idempotent ? retries + 1 : 1;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await sendOnce<T>(`${baseUrl}${endpoint}`, endpoint, options);
+    } catch (err) {
+      if (!(err instanceof ApiError) || !isRetryable(err) || attempt >= attempts) throw err;
+      await backoff(retryDelayMs * 2 ** (attempt - 1), options.signal);
+    }
+  }
+}
+
+export function createHttpProvider(overrides: Partial<HttpProviderOptions> = {}): SimulationProvider {
+  const { baseUrl, timeoutMs, aiTimeoutMs, retries, retryDelayMs } = { ...DEFAULT_HTTP_OPTIONS, ...overrides };
+  const send = <T>(endpoint: string, options: RequestOptions) =>
+    request<T>(baseUrl, endpoint, options, retries, retryDelayMs);
+
+  return {
+    id: 'http',
+    label: 'Gemini backend',
+
+    async createEcosystem(gridSize = 8, signal) {
+      const endpoint = `/ecosystem/new?grid_size=${gridSize}`;
+      return checkState(endpoint, await send(endpoint, { method: 'POST', signal, timeoutMs: aiTimeoutMs }));
+    },
+
+    async getEcosystem(signal) {
+      return checkState('/ecosystem', await send('/ecosystem', { signal, timeoutMs, idempotent: true }));
+    },
+
+    async advanceTurn(interventions = [], signal) {
+      const data = await send('/ecosystem/advance', {
+        method: 'POST',
+        body: { interventions },
+        signal,
+        timeoutMs: aiTimeoutMs,
+      });
+      const { result, corrections } = sanitizeSimulationResult(data);
+      reportCorrections('/ecosystem/advance', result.new_state.turn, corrections);
+      return result;
+    },
+
+    async chat(message, signal) {
+      const data = await send<{ response: string }>('/ecosystem/chat', {
+        method: 'POST',
+        body: { message },
+        signal,
+        timeoutMs: aiTimeoutMs,
+      });
+      return data.response;
+    },
+
+    // Loading replaces the whole state, so repeating it is harmless
+    async loadEcosystem(state, signal) {
+      const data = await send('/ecosystem/load', { method: 'POST', body: state, signal, timeoutMs, idempotent: true });
+      return checkState('/ecosystem/load', data);
+    },
+  };
+}
@@ -0,0 +1,162 @@
+import { useCallback, useRef, useState } from 'react';
+import type { EcosystemState, SimulationResult } from './types';
+
+export interface PopulationThreshold {
+  species: string;
+  value: number;
+}
+
+export interface StopConditions {
+  extinction: boolean;
+  highSeverity: boolean;
+  newWarning: boolean;
+  // Stop when this species' population crosses the value in either direction
+  threshold: PopulationThreshold | null;
+}
+
+export interface AutoPlaySettings {
+  turns: number;
+  delayMs: number;
+  conditions: StopConditions;
+}
+
+export type AutoPlayStatus = 'idle' | 'running' | 'paused';
+
+// Runs one turn from `state`. Resolves to null when the turn failed or was
+// cancelled (the caller is responsible for surfacing the error).
+export type RunTurn = (state: EcosystemState, signal: AbortSignal) => Promise<SimulationResult | null>;
+
+// Check a finished turn against the stop conditions. Returns a human-readable
+// reason, or null to keep going.
+export function findStopReason(
+  before: EcosystemState,
+  previousWarnings: string[],
+  result: SimulationResult,
+  conditions: StopConditions
+): string | null {
+  const after = result.new_state;
+  const populationBefore = new Map(before.species.map(s => [s.name, s.population]));
+
+  if (conditions.extinction) {
+    const extinct = after.species.filter(s => s.population === 0 && (populationBefore.get(s.name) ?? 0) > 0);
+    if (extinct.length > 0) {
+      return `${extinct.map(s => s.name).join(', ')} went extinct`;
+    }
+  }
+
+  if (conditions.highSeverity) {
+    const event = result.events.find(e => e.severity === 'high');
+    if (event) return `High-severity event: ${event.description}`;
+  }
+
+  if (conditions.newWarning) {
+    const warning = result.warnings.find(w => !previousWarnings.includes(w));
+    if (warning) return `New warning: ${warning}`;
+  }
+
+  if (conditions.threshold) {
+    const { species, value } = conditions.threshold;
+    const prev = populationBefore.get(species);
+    const next = after.species.find(s => s.name === species)?.population;
+    if (prev !== undefined && next !== undefined && (prev < value) !== (next < value)) {
+      return `${species} crossed ${value} (${prev} → ${next})`;
+    }
+  }
+
+  return null;
+}
+
+// Wait `ms`, resolving early if the signal aborts
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+// Drives repeated turns with pause/resume and cancellation of the in-flight
+// request. Pausing lets the current turn finish, then waits before the next.
+export function useAutoPlay(runTurn: RunTurn) {
+  const [status, setStatus] = useState<AutoPlayStatus>('idle');
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [stopReason, setStopReason] = useState<string | null>(null);
+
+  const controllerRef = useRef<AbortController | null>(null);
+  const pausedRef = useRef(false);
+  const resumeRef = useRef<(() => void) | null>(null);
+
+  const start = useCallback(async (initial: EcosystemState, initialWarnings: string[], settings: AutoPlaySettings) => {
+    if (controllerRef.current) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    pausedRef.current = false;
+    setStatus('running');
+    setStopReason(null);
+    setProgress({ done: 0, total: settings.turns });
+
+    let state = initial;
+    let previousWarnings = initialWarnings;
+    let reason = `Finished ${settings.turns} turns`;
+
+    for (let turn = 0; turn < settings.turns; turn++) {
+      if (pausedRef.current) {
+        await new Promise<void>(resolve => {
+          resumeRef.current = resolve;
+        });
+        resumeRef.current = null;
+      }
+      if (controller.signal.aborted) {
+        reason = 'Stopped';
+        break;
+      }
+
+      const result = await runTurn(state, controller.signal);
+      if (!result) {
+        reason = controller.signal.aborted ? 'Stopped' : 'Turn failed';
+        break;
+      }
+      setProgress({ done: turn + 1, total: settings.turns });
+
+      const hit = findStopReason(state, previousWarnings, result, settings.conditions);
+      state = result.new_state;
+      previousWarnings = result.warnings;
+      if (hit) {
+        reason = hit;
+        break;
+      }
+
+      if (turn < settings.turns - 1) await sleep(settings.delayMs, controller.signal);
+    }
+
+    controllerRef.current = null;
+    pausedRef.current = false;
+    setStatus('idle');
+    setStopReason(reason);
+  }, [runTurn]);
+
+  const pause = useCallback(() => {
+    if (!controllerRef.current) return;
+    pausedRef.current = true;
+    setStatus('paused');
+  }, []);
+
+  const resume = useCallback(() => {
+    pausedRef.current = false;
+    setStatus('running');
+    resumeRef.current?.();
+  }, []);
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+    resumeRef.current?.();
+  }, []);
+
+  return { status, progress, stopReason, start, pause, resume, stop };
+}
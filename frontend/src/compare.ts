@@ -0,0 +1,85 @@
+import type { BiomeType, EcosystemState } from './types';
+
+export interface SpeciesDelta {
+  name: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface TileDelta {
+  x: number;
+  y: number;
+  biomeBefore: BiomeType | null;
+  biomeAfter: BiomeType | null;
+  vegetationDelta: number;
+  waterDelta: number;
+}
+
+export interface EcosystemDiff {
+  turnBefore: number;
+  turnAfter: number;
+  seasonBefore: string;
+  seasonAfter: string;
+  temperatureDelta: number;
+  species: SpeciesDelta[];
+  // Alive in A, dead or missing in B
+  extinct: string[];
+  // Dead or missing in A, alive in B
+  introduced: string[];
+  // Only tiles where something actually changed
+  tiles: TileDelta[];
+}
+
+// Compare two ecosystem states (A = before, B = after)
+export function diffStates(a: EcosystemState, b: EcosystemState): EcosystemDiff {
+  const popA = new Map(a.species.map(s => [s.name, s.population]));
+  const popB = new Map(b.species.map(s => [s.name, s.population]));
+  const names = [...new Set([...popA.keys(), ...popB.keys()])];
+
+  const species = names
+    .map(name => {
+      const before = popA.get(name) ?? 0;
+      const after = popB.get(name) ?? 0;
+      return { name, before, after, delta: after - before };
+    })
+    .sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta));
+
+  const extinct = species.filter(s => s.before > 0 && s.after === 0).map(s => s.name);
+  const introduced = species.filter(s => s.before === 0 && s.after > 0).map(s => s.name);
+
+  const tileKey = (x: number, y: number) => `${x},${y}`;
+  const tilesA = new Map(a.tiles.map(t => [tileKey(t.x, t.y), t]));
+  const tilesB = new Map(b.tiles.map(t => [tileKey(t.x, t.y), t]));
+  const tiles: TileDelta[] = [];
+
+  for (const key of new Set([...tilesA.keys(), ...tilesB.keys()])) {
+    const before = tilesA.get(key);
+    const after = tilesB.get(key);
+    const tile = after ?? before;
+    if (!tile) continue;
+    const delta: TileDelta = {
+      x: tile.x,
+      y: tile.y,
+      biomeBefore: before?.biome ?? null,
+      biomeAfter: after?.biome ?? null,
+      vegetationDelta: (after?.vegetation ?? 0) - (before?.vegetation ?? 0),
+      waterDelta: (after?.water_level ?? 0) - (before?.water_level ?? 0),
+    };
+    if (delta.biomeBefore !== delta.biomeAfter || delta.vegetationDelta !== 0 || delta.waterDelta !== 0) {
+      tiles.push(delta);
+    }
+  }
+
+  return {
+    turnBefore: a.turn,
+    turnAfter: b.turn,
+    seasonBefore: a.season,
+    seasonAfter: b.season,
+    temperatureDelta: b.temperature - a.temperature,
+    species,
+    extinct,
+    introduced,
+    tiles,
+  };
+}
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import type { Species } from '../types';
+import type { AutoPlaySettings, AutoPlayStatus } from '../autoPlay';
+
+interface AutoPlayPanelProps {
+  species: Species[];
+  status: AutoPlayStatus;
+  progress: { done: number; total: number };
+  stopReason: string | null;
+  disabled: boolean;
+  onStart: (settings: AutoPlaySettings) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+}
+
+export default function AutoPlayPanel({
+  species,
+  status,
+  progress,
+  stopReason,
+  disabled,
+  onStart,
+  onPause,
+  onResume,
+  onStop,
+}: AutoPlayPanelProps) {
+  const [turns, setTurns] = useState(10);
+  const [delaySeconds, setDelaySeconds] = useState(2);
+  const [extinction, setExtinction] = useState(true);
+  const [highSeverity, setHighSeverity] = useState(true);
+  const [newWarning, setNewWarning] = useState(false);
+  const [thresholdSpecies, setThresholdSpecies] = useState('');
+  const [thresholdValue, setThresholdValue] = useState(100);
+
+  const isRunning = status !== 'idle';
+
+  const handleStart = () => {
+    onStart({
+      turns: Math.max(1, turns),
+      delayMs: Math.max(0, delaySeconds) * 1000,
+      conditions: {
+        extinction,
+        highSeverity,
+        newWarning,
+        threshold: thresholdSpecies ? { species: thresholdSpecies, value: thresholdValue } : null,
+      },
+    });
+  };
+
+  const inputClass = 'w-full bg-zinc-800 border border-zinc-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-cyan-500 disabled:opacity-50';
+
+  return (
+    <div className="bg-zinc-900/80 backdrop-blur border border-zinc-700 rounded-lg p-4 space-y-3">
+      <div className="text-sm font-medium text-zinc-400 uppercase tracking-wide">
+        Auto-Play
+      </div>
+
+      {/* Pace */}
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-xs text-zinc-500">
+          Turns
+          <input
+            type="number"
+            min={1}
+            max={200}
+            value={turns}
+            disabled={isRunning}
+            onChange={(e) => setTurns(Number(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-zinc-500">
+          Delay (s)
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={delaySeconds}
+            disabled={isRunning}
+            onChange={(e) => setDelaySeconds(Number(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {/* Stop conditions */}
+      <div className="space-y-1 text-sm">
+        <div className="text-xs text-zinc-500">Stop when</div>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={extinction} disabled={isRunning} onChange={(e) => setExtinction(e.target.checked)} />
+          Any species goes extinct
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={highSeverity} disabled={isRunning} onChange={(e) => setHighSeverity(e.target.checked)} />
+          A high-severity event occurs
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={newWarning} disabled={isRunning} onChange={(e) => setNewWarning(e.target.checked)} />
+          A new warning appears
+        </label>
+        <div className="flex items-center gap-2">
+          <select
+            value={thresholdSpecies}
+            disabled={isRunning}
+            onChange={(e) => setThresholdSpecies(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">No population threshold</option>
+            {species.map((s) => (
+              <option key={s.name} value={s.name}>
+                {s.name} crosses…
+              </option>
+            ))}
+          </select>
+          {thresholdSpecies && (
+            <input
+              type="number"
+              min={0}
+              value={thresholdValue}
+              disabled={isRunning}
+              onChange={(e) => setThresholdValue(Number(e.target.value))}
+              className={`${inputClass} w-24`}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Progress */}
+      {isRunning && (
+        <div>
+          <div className="flex justify-between text-xs text-zinc-400 mb-1">
+            <span>{status === 'paused' ? 'Paused' : 'Running'}</span>
+            <span className="font-mono">{progress.done}/{progress.total}</span>
+          </div>
+          <div className="h-1 bg-zinc-700 rounded overflow-hidden">
+            <div
+              className="h-full bg-cyan-500 transition-all"
+              style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+      {!isRunning && stopReason && (
+        <div className="text-xs text-zinc-400 bg-zinc-800 rounded px-3 py-2">
+          ⏹ {stopReason}
+        </div>
+      )}
+
+      {/* Controls */}
+      {isRunning ? (
+        <div className="flex gap-2">
+          <button
+            onClick={status === 'paused' ? onResume : onPause}
+            className="flex-1 bg-zinc-800 hover:bg-zinc-700 border border-zinc-600 text-sm py-2 rounded transition-colors"
+          >
+            {status === 'paused' ? '▶ Resume' : '⏸ Pause'}
+          </button>
+          <button
+            onClick={onStop}
+            className="flex-1 bg-red-900/50 hover:bg-red-800/60 border border-red-700 text-sm py-2 rounded transition-colors"
+          >
+            ⏹ Stop
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={handleStart}
+          disabled={disabled}
+          className="w-full bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed border border-zinc-600 text-sm py-2 rounded transition-colors"
+        >
+          ⏩ Run {turns} turns
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useRef, useState } from 'react';
+import type { SimulationEvent, Species } from '../types';
+
+interface ChatPanelProps {
+  species: Species[];
+  previousSpecies: Species[] | null;
+  events: SimulationEvent[];
+  warnings: string[];
+  onAsk: (message: string) => Promise<string>;
+}
+
+interface ChatMessage {
+  role: 'user' | 'assistant' | 'error';
+  text: string;
+}
+
+const MAX_QUICK_PROMPTS = 4;
+
+// Build suggested questions from what just happened this turn
+function buildQuickPrompts(
+  species: Species[],
+  previousSpecies: Species[] | null,
+  events: SimulationEvent[],
+  warnings: string[]
+): string[] {
+  const prompts: string[] = [];
+  const previous = new Map(previousSpecies?.map(s => [s.name, s.population]));
+
+  // Biggest relative declines first
+  const declines = species
+    .map(s => {
+      const before = previous.get(s.name);
+      return { name: s.name, change: before ? (s.population - before) / before : 0 };
+    })
+    .filter(s => s.change < -0.1)
+    .sort((a, b) => a.change - b.change);
+  for (const s of declines) prompts.push(`Why did the ${s.name} decline?`);
+
+  for (const event of events) {
+    if (event.severity === 'low') continue;
+    for (const name of event.affected_species) {
+      prompts.push(`How will the ${name} recover from this?`);
+    }
+  }
+
+  for (const warning of warnings) {
+    prompts.push(`What should I do about: "${warning}"?`);
+  }
+
+  if (prompts.length === 0) prompts.push('What is the most fragile part of this ecosystem?');
+
+  return [...new Set(prompts)].slice(0, MAX_QUICK_PROMPTS);
+}
+
+export default function ChatPanel({ species, previousSpecies, events, warnings, onAsk }: ChatPanelProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const quickPrompts = buildQuickPrompts(species, previousSpecies, events, warnings);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [messages, isAsking]);
+
+  const ask = async (text: string) => {
+    const message = text.trim();
+    if (!message || isAsking) return;
+
+    setMessages(prev => [...prev, { role: 'user', text: message }]);
+    setInput('');
+    setIsAsking(true);
+    try {
+      const response = await onAsk(message);
+      setMessages(prev => [...prev, { role: 'assistant', text: response }]);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setMessages(prev => [...prev, { role: 'error', text: `Couldn't reach the narrator: ${errorMessage}` }]);
+      console.error('Chat error:', err);
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900/80 backdrop-blur border border-zinc-700 rounded-lg p-4 flex flex-col">
+      <div className="text-sm font-medium text-zinc-400 uppercase tracking-wide mb-3">
+        Ask the Narrator
+      </div>
+
+      {/* Message history */}
+      <div ref={scrollRef} className="max-h-64 overflow-y-auto space-y-2 mb-3">
+        {messages.length === 0 && (
+          <div className="text-sm text-zinc-500 italic">
+            Ask about the ecosystem - time won't advance.
+          </div>
+        )}
+        {messages.map((msg, i) => (
+          <div
+            key={i}
+            className={`text-sm rounded px-3 py-2 whitespace-pre-wrap ${
+              msg.role === 'user'
+                ? 'bg-cyan-900/30 border border-cyan-700/50 ml-6'
+                : msg.role === 'error'
+                  ? 'bg-red-900/30 border border-red-700/50 text-red-300'
+                  : 'bg-zinc-800 text-zinc-300 mr-6'
+            }`}
+          >
+            {msg.text}
+          </div>
+        ))}
+        {isAsking && (
+          <div className="flex items-center gap-2 text-sm text-zinc-500">
+            <div className="w-3 h-3 border-2 border-zinc-500/30 border-t-zinc-400 rounded-full animate-spin" />
+            Thinking...
+          </div>
+        )}
+      </div>
+
+      {/* Quick prompts */}
+      <div className="flex flex-wrap gap-1 mb-2">
+        {quickPrompts.map((prompt) => (
+          <button
+            key={prompt}
+            onClick={() => ask(prompt)}
+            disabled={isAsking}
+            className="text-xs text-left px-2 py-1 bg-zinc-800 hover:bg-zinc-700 border border-zinc-600 rounded-full disabled:opacity-50 transition-colors"
+          >
+            {prompt}
+          </button>
+        ))}
+      </div>
+
+      {/* Input */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          ask(input);
+        }}
+        className="flex gap-2"
+      >
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Ask a question..."
+          className="flex-1 min-w-0 bg-zinc-800 border border-zinc-600 rounded px-3 py-2 text-sm focus:outline-none focus:border-cyan-500"
+        />
+        <button
+          type="submit"
+          disabled={isAsking || !input.trim()}
+          className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-zinc-700 disabled:cursor-not-allowed text-white text-sm px-3 rounded transition-colors"
+        >
+          Ask
+        </button>
+      </form>
+    </div>
+  );
+}
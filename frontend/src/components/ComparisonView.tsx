@@ -0,0 +1,280 @@
+import { useMemo, useState } from 'react';
+import type { EcosystemState } from '../types';
+import { BIOME_COLORS, SPECIES_ICONS } from '../types';
+import { diffStates } from '../compare';
+import type { TileDelta } from '../compare';
+import { parseSaveFile } from '../saveFile';
+
+export interface ComparisonSource {
+  id: string;
+  label: string;
+  state: EcosystemState;
+}
+
+interface ComparisonViewProps {
+  sources: ComparisonSource[];
+  initialA: string;
+  initialB: string;
+  onClose: () => void;
+}
+
+type MapMode = 'biome' | 'vegetation' | 'water';
+
+interface SlotPickerProps {
+  label: string;
+  value: string;
+  sources: ComparisonSource[];
+  onChange: (id: string) => void;
+  onFile: (file: File) => void;
+}
+
+function SlotPicker({ label, value, sources, onChange, onFile }: SlotPickerProps) {
+  const [dragOver, setDragOver] = useState(false);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragOver(false);
+    const file = e.dataTransfer.files[0];
+    if (file) onFile(file);
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragOver(true);
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={handleDrop}
+      className={`flex-1 rounded p-3 border border-dashed ${
+        dragOver ? 'border-cyan-500 bg-cyan-900/20' : 'border-zinc-600'
+      }`}
+    >
+      <div className="text-xs text-zinc-500 mb-1">{label}</div>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full bg-zinc-800 border border-zinc-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-cyan-500"
+      >
+        {sources.map((source) => (
+          <option key={source.id} value={source.id}>
+            {source.label}
+          </option>
+        ))}
+      </select>
+      <label className="block text-xs text-zinc-500 mt-2 cursor-pointer hover:text-zinc-300">
+        …or drop a save file here / browse
+        <input
+          type="file"
+          accept=".json,.ecosim"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+    </div>
+  );
+}
+
+function formatSigned(value: number, digits = 0): string {
+  const rounded = value.toFixed(digits);
+  return value > 0 ? `+${rounded}` : rounded;
+}
+
+// Diverging red/green color for a 0-100 scale delta
+function deltaColor(delta: number): string {
+  const alpha = Math.min(1, Math.abs(delta) / 50);
+  return delta >= 0 ? `rgba(74, 222, 128, ${alpha})` : `rgba(248, 113, 113, ${alpha})`;
+}
+
+function cellTitle(x: number, y: number, delta: TileDelta | undefined): string {
+  if (!delta) return `(${x}, ${y}) unchanged`;
+  const parts = [`(${x}, ${y})`];
+  if (delta.biomeBefore !== delta.biomeAfter) {
+    parts.push(`biome ${delta.biomeBefore ?? 'none'} → ${delta.biomeAfter ?? 'none'}`);
+  }
+  if (delta.vegetationDelta !== 0) parts.push(`vegetation ${formatSigned(delta.vegetationDelta)}`);
+  if (delta.waterDelta !== 0) parts.push(`water ${formatSigned(delta.waterDelta)}`);
+  return parts.join(' · ');
+}
+
+export default function ComparisonView({ sources, initialA, initialB, onClose }: ComparisonViewProps) {
+  const [fileSources, setFileSources] = useState<ComparisonSource[]>([]);
+  const [idA, setIdA] = useState(initialA);
+  const [idB, setIdB] = useState(initialB);
+  const [mapMode, setMapMode] = useState<MapMode>('biome');
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const allSources = useMemo(() => [...sources, ...fileSources], [sources, fileSources]);
+  const stateA = allSources.find(s => s.id === idA)?.state;
+  const stateB = allSources.find(s => s.id === idB)?.state;
+  const diff = useMemo(
+    () => (stateA && stateB ? diffStates(stateA, stateB) : null),
+    [stateA, stateB]
+  );
+
+  const handleFile = async (file: File, setSlot: (id: string) => void) => {
+    setFileError(null);
+    try {
+      const save = parseSaveFile(await file.text());
+      const id = `file:${file.name}:${Date.now()}`;
+      setFileSources(prev => [...prev, {
+        id,
+        label: `📄 ${file.name} (T${save.ecosystem.turn})`,
+        state: save.ecosystem,
+      }]);
+      setSlot(id);
+    } catch (err) {
+      setFileError(`${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const gridSize = stateB?.grid_size ?? stateA?.grid_size ?? 0;
+  const tileDeltas = new Map(diff?.tiles.map(t => [`${t.x},${t.y}`, t]));
+  const tilesB = new Map(stateB?.tiles.map(t => [`${t.x},${t.y}`, t]));
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-zinc-900 border border-zinc-700 rounded-lg w-full max-w-3xl max-h-full overflow-y-auto p-4 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-medium text-zinc-400 uppercase tracking-wide">
+            Compare Ecosystems
+          </div>
+          <button onClick={onClose} className="text-zinc-400 hover:text-zinc-200 px-2" aria-label="Close comparison">
+            ✕
+          </button>
+        </div>
+
+        {/* Slot pickers */}
+        <div className="flex gap-3">
+          <SlotPicker label="A (before)" value={idA} sources={allSources} onChange={setIdA} onFile={(f) => handleFile(f, setIdA)} />
+          <SlotPicker label="B (after)" value={idB} sources={allSources} onChange={setIdB} onFile={(f) => handleFile(f, setIdB)} />
+        </div>
+
+        {fileError && (
+          <div className="text-sm text-red-300 bg-red-900/30 border border-red-700/50 rounded px-3 py-2">
+            {fileError}
+          </div>
+        )}
+
+        {diff && (
+          <>
+            {/* Climate */}
+            <div className="grid grid-cols-3 gap-3">
+              <div className="bg-zinc-800 rounded p-3">
+                <div className="text-xs text-zinc-500">Turn</div>
+                <div className="text-sm font-semibold font-mono">{diff.turnBefore} → {diff.turnAfter}</div>
+              </div>
+              <div className="bg-zinc-800 rounded p-3">
+                <div className="text-xs text-zinc-500">Season</div>
+                <div className="text-sm font-semibold capitalize">
+                  {diff.seasonBefore === diff.seasonAfter ? diff.seasonAfter : `${diff.seasonBefore} → ${diff.seasonAfter}`}
+                </div>
+              </div>
+              <div className="bg-zinc-800 rounded p-3">
+                <div className="text-xs text-zinc-500">Temperature</div>
+                <div className={`text-sm font-semibold font-mono ${
+                  diff.temperatureDelta > 0 ? 'text-orange-400' : diff.temperatureDelta < 0 ? 'text-sky-400' : ''
+                }`}>
+                  {formatSigned(diff.temperatureDelta, 1)}°C
+                </div>
+              </div>
+            </div>
+
+            {/* Extinctions / introductions */}
+            {(diff.extinct.length > 0 || diff.introduced.length > 0) && (
+              <div className="flex flex-wrap gap-2 text-xs">
+                {diff.extinct.map((name) => (
+                  <span key={name} className="bg-red-900/30 border border-red-700/50 text-red-300 rounded px-2 py-1">
+                    ☠ {name} went extinct
+                  </span>
+                ))}
+                {diff.introduced.map((name) => (
+                  <span key={name} className="bg-green-900/30 border border-green-700/50 text-green-300 rounded px-2 py-1">
+                    ✚ {name} introduced
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {/* Species deltas */}
+              <div>
+                <div className="text-xs text-zinc-500 mb-2">Populations</div>
+                <div className="space-y-1">
+                  {diff.species.map((s) => (
+                    <div key={s.name} className="flex items-center justify-between text-sm py-1 px-2 rounded hover:bg-zinc-800">
+                      <span className="flex items-center gap-2">
+                        <span>{SPECIES_ICONS[s.name] || SPECIES_ICONS.default}</span>
+                        {s.name}
+                      </span>
+                      <span className="font-mono text-xs">
+                        <span className="text-zinc-500">{s.before} → {s.after}</span>{' '}
+                        <span className={s.delta > 0 ? 'text-green-400' : s.delta < 0 ? 'text-red-400' : 'text-zinc-500'}>
+                          {formatSigned(s.delta)}
+                        </span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Tile mini-map */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <div className="text-xs text-zinc-500">
+                    Tiles ({diff.tiles.length} changed)
+                  </div>
+                  <select
+                    value={mapMode}
+                    onChange={(e) => setMapMode(e.target.value as MapMode)}
+                    className="bg-zinc-800 border border-zinc-600 rounded px-1 py-0.5 text-xs focus:outline-none"
+                  >
+                    <option value="biome">Biome</option>
+                    <option value="vegetation">Vegetation Δ</option>
+                    <option value="water">Water Δ</option>
+                  </select>
+                </div>
+                <div
+                  className="grid gap-px bg-zinc-800 rounded overflow-hidden"
+                  style={{ gridTemplateColumns: `repeat(${gridSize}, minmax(0, 1fr))` }}
+                >
+                  {Array.from({ length: gridSize * gridSize }, (_, i) => {
+                    const x = i % gridSize;
+                    const y = Math.floor(i / gridSize);
+                    const key = `${x},${y}`;
+                    const delta = tileDeltas.get(key);
+                    const tile = tilesB.get(key);
+                    const biomeChanged = delta !== undefined && delta.biomeBefore !== delta.biomeAfter;
+
+                    let background = tile ? BIOME_COLORS[tile.biome] : '#18181b';
+                    if (mapMode === 'vegetation') background = delta ? deltaColor(delta.vegetationDelta) : '#27272a';
+                    if (mapMode === 'water') background = delta ? deltaColor(delta.waterDelta) : '#27272a';
+
+                    return (
+                      <div
+                        key={key}
+                        title={cellTitle(x, y, delta)}
+                        className={`aspect-square ${biomeChanged ? 'ring-2 ring-inset ring-amber-400' : ''}`}
+                        style={{ backgroundColor: background }}
+                      />
+                    );
+                  })}
+                </div>
+                {mapMode === 'biome' && (
+                  <div className="text-xs text-zinc-500 mt-1">Showing B's biomes; outlined tiles changed biome.</div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
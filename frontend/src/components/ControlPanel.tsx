@@ -1,14 +1,26 @@
 import { useState } from 'react';
+import type { Intensity, InterventionKind, InterventionRequest, Species } from '../types';
+import { checkSpecies, createSpecies } from '../scenario';
+import { describeIntervention } from '../interventions';
+import SpeciesDesigner from './SpeciesDesigner';
 
 interface ControlPanelProps {
   temperature: number;
   season: string;
+  species: Species[];
   selectedTile: [number, number] | null;
-  onAdvanceTurn: (intervention?: { action: string; details?: string }) => void;
+  onClearTile: () => void;
+  // Called with every queued intervention, in the order to apply them.
+  // Resolves to whether the turn went through.
+  onAdvanceTurn: (interventions: InterventionRequest[]) => Promise<boolean>;
+  // Hand the current selection over to the scheduler
+  onSchedule: (intervention: InterventionRequest) => void;
   isLoading: boolean;
+  // Shown while a turn runs, if it can be cancelled
+  onCancel?: () => void;
 }
 
-const INTERVENTION_TYPES = [
+const INTERVENTION_TYPES: { value: InterventionKind | ''; label: string }[] = [
   { value: '', label: 'No intervention' },
   { value: 'introduce_species', label: 'Introduce Species' },
   { value: 'remove_species', label: 'Remove Species' },
@@ -17,9 +29,7 @@ const INTERVENTION_TYPES = [
   { value: 'calamity', label: '💀 CALAMITY' },
 ];
 
-const SPECIES_OPTIONS = [
-  'Wolf', 'Bear', 'Deer', 'Rabbit', 'Fox', 'Hawk', 'Eagle', 'Salmon', 'Beaver'
-];
+const INTENSITIES: Intensity[] = ['low', 'medium', 'high'];
 
 const DISASTER_OPTIONS = [
   'Wildfire', 'Flood', 'Drought', 'Disease Outbreak', 'Harsh Winter'
@@ -45,18 +55,34 @@ const CALAMITY_OPTIONS = [
 export default function ControlPanel({
   temperature,
   season,
+  species,
   selectedTile,
+  onClearTile,
   onAdvanceTurn,
+  onSchedule,
   isLoading,
+  onCancel,
 }: ControlPanelProps) {
-  const [interventionType, setInterventionType] = useState('');
+  const [interventionType, setInterventionType] = useState<InterventionKind | ''>('');
   const [selectedOption, setSelectedOption] = useState('');
+  const [design, setDesign] = useState<Species>(() => createSpecies(''));
+  const [intensity, setIntensity] = useState<Intensity>('medium');
+  const [duration, setDuration] = useState(1);
+  const [radius, setRadius] = useState(0);
+  // Blank = remove all
+  const [removeCount, setRemoveCount] = useState('');
+  const [queue, setQueue] = useState<InterventionRequest[]>([]);
+
+  // Species already queued for introduction count as taken names too
+  const queuedSpecies = queue.flatMap(i => (i.kind === 'introduce_species' ? [i.species] : []));
+  const designIssues = interventionType === 'introduce_species'
+    ? checkSpecies(design, [...species, ...queuedSpecies])
+    : [];
 
   const getSecondaryOptions = () => {
     switch (interventionType) {
-      case 'introduce_species':
       case 'remove_species':
-        return SPECIES_OPTIONS;
+        return species.filter(s => s.population > 0).map(s => s.name);
       case 'natural_disaster':
         return DISASTER_OPTIONS;
       case 'change_climate':
@@ -68,46 +94,85 @@ export default function ControlPanel({
     }
   };
 
-  const handleAdvance = () => {
-    if (!interventionType || !selectedOption) {
-      onAdvanceTurn();
-    } else {
-      let action = '';
-      let details = '';
-
-      switch (interventionType) {
-        case 'introduce_species':
-          action = `Introduce ${selectedOption} to the ecosystem`;
-          if (selectedTile) {
-            details = `at tile (${selectedTile[0]}, ${selectedTile[1]})`;
-          }
-          break;
-        case 'remove_species':
-          action = `Remove all ${selectedOption} from the ecosystem`;
-          break;
-        case 'natural_disaster':
-          action = `Trigger a ${selectedOption}`;
-          if (selectedTile) {
-            details = `centered at tile (${selectedTile[0]}, ${selectedTile[1]})`;
-          }
-          break;
-        case 'change_climate':
-          action = `${selectedOption} affects the ecosystem`;
-          break;
-        case 'calamity':
-          action = `CALAMITY: ${selectedOption} devastates the ecosystem!`;
-          details = 'This is a catastrophic event with severe consequences for all species.';
-          break;
-      }
+  const buildIntervention = (): InterventionRequest | undefined => {
+    const area = selectedTile ? { x: selectedTile[0], y: selectedTile[1], radius } : undefined;
 
-      onAdvanceTurn({ action, details });
+    switch (interventionType) {
+      case 'introduce_species': {
+        const name = design.name.trim();
+        return { kind: 'introduce_species', species: { ...design, name }, count: design.population, area };
+      }
+      case 'remove_species': {
+        if (!selectedOption) return undefined;
+        const count = Math.round(Number(removeCount));
+        return { kind: 'remove_species', target: selectedOption, count: count > 0 ? count : undefined, area };
+      }
+      case 'natural_disaster':
+        return selectedOption ? { kind: 'natural_disaster', disaster: selectedOption, intensity, duration, area } : undefined;
+      case 'change_climate':
+        return selectedOption ? { kind: 'change_climate', event: selectedOption, intensity, duration } : undefined;
+      case 'calamity':
+        return selectedOption ? { kind: 'calamity', calamity: selectedOption, intensity, duration, area } : undefined;
+      default:
+        return undefined;
     }
+  };
 
-    // Reset selections after advancing
-    setInterventionType('');
+  const handleTypeChange = (kind: InterventionKind | '') => {
+    setInterventionType(kind);
     setSelectedOption('');
+    setIntensity(kind === 'calamity' ? 'high' : 'medium');
+    setDuration(1);
+    setRadius(0);
+    setRemoveCount('');
+  };
+
+  const resetForm = () => {
+    if (interventionType === 'introduce_species') setDesign(createSpecies(''));
+    handleTypeChange('');
+  };
+
+  // The form's intervention, once it's complete and valid
+  const current = designIssues.length === 0 ? buildIntervention() : undefined;
+
+  const handleAddToQueue = () => {
+    if (!current) return;
+    setQueue([...queue, current]);
+    resetForm();
+  };
+
+  const handleSchedule = () => {
+    if (!current) return;
+    onSchedule(current);
+    resetForm();
+  };
+
+  const moveQueued = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= queue.length) return;
+    const next = [...queue];
+    [next[index], next[target]] = [next[target], next[index]];
+    setQueue(next);
+  };
+
+  const handleAdvance = async () => {
+    // An unqueued but complete selection is applied last
+    const advanced = await onAdvanceTurn(current ? [...queue, current] : queue);
+
+    // Reset selections once the turn has gone through; keep them for a retry
+    // if it failed or was cancelled. A half-filled form wasn't sent, so it
+    // stays as it is.
+    if (!advanced) return;
+    setQueue([]);
+    if (current) resetForm();
   };
 
+  // An incomplete species design only blocks advancing when there's nothing
+  // queued to send instead
+  const designBlocks = designIssues.length > 0 && queue.length === 0;
+
+  const pendingCount = queue.length + (current ? 1 : 0);
+
   const secondaryOptions = getSecondaryOptions();
 
   return (
@@ -129,12 +194,25 @@ export default function ControlPanel({
       </div>
 
       {/* Selected Tile */}
-      {selectedTile && (
-        <div className="bg-cyan-900/30 border border-cyan-700/50 rounded p-3">
-          <div className="text-xs text-cyan-400">Selected Tile</div>
-          <div className="text-sm font-medium">
-            Position: ({selectedTile[0]}, {selectedTile[1]})
+      {selectedTile ? (
+        <div className="bg-cyan-900/30 border border-cyan-700/50 rounded p-3 flex items-center justify-between">
+          <div>
+            <div className="text-xs text-cyan-400">Selected Tile</div>
+            <div className="text-sm font-medium">
+              Position: ({selectedTile[0]}, {selectedTile[1]})
+            </div>
           </div>
+          <button
+            onClick={onClearTile}
+            className="text-xs text-zinc-400 hover:text-zinc-200 px-2 py-1"
+            title="Clear tile selection"
+          >
+            ✕
+          </button>
+        </div>
+      ) : (
+        <div className="text-xs text-zinc-500">
+          Click the island to target a tile.
         </div>
       )}
 
@@ -147,10 +225,7 @@ export default function ControlPanel({
         <div className="space-y-3">
           <select
             value={interventionType}
-            onChange={(e) => {
-              setInterventionType(e.target.value);
-              setSelectedOption('');
-            }}
+            onChange={(e) => handleTypeChange(e.target.value as InterventionKind | '')}
             className="w-full bg-zinc-800 border border-zinc-600 rounded px-3 py-2 text-sm focus:outline-none focus:border-cyan-500"
           >
             {INTERVENTION_TYPES.map((type) => (
@@ -175,13 +250,144 @@ export default function ControlPanel({
               ))}
             </select>
           )}
+
+          {/* Intensity & duration */}
+          {(interventionType === 'natural_disaster' || interventionType === 'change_climate' || interventionType === 'calamity') && (
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-xs text-zinc-500">
+                Intensity
+                <select
+                  value={intensity}
+                  onChange={(e) => setIntensity(e.target.value as Intensity)}
+                  className="w-full bg-zinc-800 border border-zinc-600 rounded px-2 py-1 text-sm capitalize focus:outline-none focus:border-cyan-500"
+                >
+                  {INTENSITIES.map((level) => (
+                    <option key={level} value={level}>{level}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs text-zinc-500">
+                Duration (turns)
+                <input
+                  type="number"
+                  min={1}
+                  value={duration}
+                  onChange={(e) => setDuration(Math.max(1, Math.round(Number(e.target.value))))}
+                  className="w-full bg-zinc-800 border border-zinc-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-cyan-500"
+                />
+              </label>
+            </div>
+          )}
+
+          {/* Removal count */}
+          {interventionType === 'remove_species' && (
+            <label className="block text-xs text-zinc-500">
+              How many
+              <input
+                type="number"
+                min={1}
+                value={removeCount}
+                onChange={(e) => setRemoveCount(e.target.value)}
+                placeholder="All"
+                className="w-full bg-zinc-800 border border-zinc-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-cyan-500"
+              />
+            </label>
+          )}
+
+          {/* Area around the selected tile */}
+          {selectedTile && interventionType && interventionType !== 'change_climate' && (
+            <label className="block text-xs text-zinc-500">
+              Area radius around ({selectedTile[0]}, {selectedTile[1]})
+              <input
+                type="number"
+                min={0}
+                value={radius}
+                onChange={(e) => setRadius(Math.max(0, Math.round(Number(e.target.value))))}
+                className="w-full bg-zinc-800 border border-zinc-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-cyan-500"
+              />
+            </label>
+          )}
+
+          {/* Species Designer */}
+          {interventionType === 'introduce_species' && (
+            <>
+              <SpeciesDesigner species={design} others={species} onChange={setDesign} minPopulation={1} />
+              {designIssues.map((issue, i) => (
+                <div key={i} className="text-xs text-amber-400">⚠ {issue.path}: {issue.message}</div>
+              ))}
+            </>
+          )}
         </div>
       </div>
 
+      {/* Queue */}
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <button
+            onClick={handleAddToQueue}
+            disabled={!current}
+            className="flex-1 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed border border-zinc-600 text-sm py-2 rounded transition-colors"
+          >
+            + Add to Queue
+          </button>
+          <button
+            onClick={handleSchedule}
+            disabled={!current}
+            className="flex-1 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed border border-zinc-600 text-sm py-2 rounded transition-colors"
+            title="Apply at a later turn, season or population level"
+          >
+            Schedule...
+          </button>
+        </div>
+
+        {pendingCount > 0 && (
+          <div className="bg-zinc-800/60 rounded p-2 space-y-1">
+            <div className="text-xs text-zinc-500">Applied this turn, in order</div>
+            {queue.map((intervention, i) => (
+              <div key={i} className="flex items-start gap-2 text-xs">
+                <span className="text-zinc-500 font-mono">{i + 1}.</span>
+                <span className="flex-1 text-zinc-300">{describeIntervention(intervention)}</span>
+                <div className="flex shrink-0 text-zinc-400">
+                  <button
+                    onClick={() => moveQueued(i, -1)}
+                    disabled={i === 0}
+                    className="px-1 hover:text-zinc-200 disabled:opacity-30"
+                    aria-label="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => moveQueued(i, 1)}
+                    disabled={i === queue.length - 1}
+                    className="px-1 hover:text-zinc-200 disabled:opacity-30"
+                    aria-label="Move down"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => setQueue(queue.filter((_, j) => j !== i))}
+                    className="px-1 hover:text-red-300"
+                    aria-label="Remove from queue"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+            ))}
+            {current && (
+              <div className="flex items-start gap-2 text-xs text-zinc-500 italic">
+                <span className="font-mono">{queue.length + 1}.</span>
+                <span className="flex-1">{describeIntervention(current)} (current selection)</span>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Advance Button */}
       <button
         onClick={handleAdvance}
-        disabled={isLoading}
+        disabled={isLoading || designBlocks}
         className="w-full bg-cyan-600 hover:bg-cyan-500 disabled:bg-zinc-700 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
       >
         {isLoading ? (
@@ -193,9 +399,22 @@ export default function ControlPanel({
           <>
             <span>▶</span>
             Advance Turn
+            {pendingCount > 0 && (
+              <span className="text-xs font-normal text-cyan-100">
+                ({pendingCount} intervention{pendingCount === 1 ? '' : 's'})
+              </span>
+            )}
           </>
         )}
       </button>
+      {isLoading && onCancel && (
+        <button
+          onClick={onCancel}
+          className="w-full bg-zinc-800 hover:bg-zinc-700 border border-zinc-600 text-sm py-1.5 rounded transition-colors"
+        >
+          Cancel turn
+        </button>
+      )}
     </div>
   );
 }
@@ -0,0 +1,46 @@
+import type { ResponseCorrections } from '../api';
+
+interface DiagnosticsPanelProps {
+  // Newest first
+  reports: ResponseCorrections[];
+  onClear: () => void;
+}
+
+export default function DiagnosticsPanel({ reports, onClear }: DiagnosticsPanelProps) {
+  const total = reports.reduce((sum, r) => sum + r.corrections.length, 0);
+
+  return (
+    <div className="bg-zinc-900/80 backdrop-blur border border-amber-700/50 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-amber-400 uppercase tracking-wide">
+          Response Fixes ({total})
+        </div>
+        <button
+          onClick={onClear}
+          className="text-xs px-2 py-0.5 bg-zinc-800 hover:bg-zinc-700 border border-zinc-600 rounded"
+        >
+          Clear
+        </button>
+      </div>
+
+      <div className="text-xs text-zinc-500">
+        The backend sent values the app couldn't use as-is. They were corrected before display.
+      </div>
+
+      <div className="space-y-2 max-h-48 overflow-y-auto">
+        {reports.map((report, i) => (
+          <div key={i}>
+            <div className="text-xs text-zinc-500 mb-1">
+              Turn {report.turn} <span className="text-zinc-600">· {report.endpoint}</span>
+            </div>
+            {report.corrections.map((c, j) => (
+              <div key={j} className="text-xs text-zinc-300 mb-0.5">
+                <span className="font-mono text-amber-300/80">{c.path}</span>: {c.message}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,23 +1,155 @@
-import { Suspense } from 'react';
-import { Canvas } from '@react-three/fiber';
+import { Suspense, useEffect, useMemo, useRef, useState } from 'react';
+import type { ComponentRef, Ref } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls, Sky } from '@react-three/drei';
 import { EffectComposer, Bloom } from '@react-three/postprocessing';
-import type { Species } from '../types';
+import * as THREE from 'three';
+import type { SimulationEvent, Species, Tile, TileCoord } from '../types';
 import WaterSurfaceSimple from '../../WaterSurface/WaterSurfaceSimple';
 import Terrain from './Terrain';
 import SpeciesMarkers from './SpeciesMarkers';
+import TileHighlight from './TileHighlight';
+import EventMarkers from './EventMarkers';
+import TileChangeGlow from './TileChangeGlow';
+import WeatherEffects from './WeatherEffects';
+import type { OverlayMode } from '../overlay';
+import { OVERLAY_LABELS, overlayLegend } from '../overlay';
+import { tileCenter, TERRAIN_POSITION } from '../tileGrid';
+import { MAX_TRANSITION_MS, getTransitionMs, setTransitionMs, transitionProgress } from '../transitions';
+import type { TerrainSource } from '../proceduralTerrain';
+import { TERRAIN_SOURCE_LABELS, getTerrainSource, setTerrainSource, terrainMapsFor } from '../proceduralTerrain';
+import type { Weather, WeatherIntervention } from '../weather';
+import { weatherFor, weatherName } from '../weather';
+
+// A request to fly the camera to some tiles. Make a new object (fresh `id`)
+// for every request so repeating the same tiles flies again.
+export interface CameraFocus {
+  id: number;
+  tiles: TileCoord[];
+}
 
 interface EcosystemViewportProps {
   species: Species[];
+  tiles: Tile[];
   season: string;
+  gridSize: number;
+  selectedTile: [number, number] | null;
+  onTileSelect: (x: number, y: number) => void;
+  canvasRef?: Ref<HTMLCanvasElement>;
+  // This turn's events, drawn over their affected tiles
+  events: SimulationEvent[];
+  highlightedEvent: number | null;
+  cameraFocus: CameraFocus | null;
+  temperature: number;
+  // Climate interventions and weather disasters in effect this turn
+  climate: WeatherIntervention[];
 }
 
-interface SceneProps {
-  species: Species[];
-  season: string;
+type SceneProps = Omit<EcosystemViewportProps, 'canvasRef' | 'temperature' | 'climate'> & {
+  weather: Weather;
+  overlay: OverlayMode;
+  overlayOpacity: number;
+  transitionMs: number;
+  terrainSource: TerrainSource;
+};
+
+// Distance the camera settles at from a focused spot, and how long it
+// takes to get there
+const FOCUS_DISTANCE = 18;
+const FLIGHT_MS = 1500;
+
+// The controls object behind drei's <OrbitControls makeDefault />
+type OrbitControlsImpl = ComponentRef<typeof OrbitControls>;
+
+interface Flight {
+  start: number;
+  fromTarget: THREE.Vector3;
+  fromPosition: THREE.Vector3;
+  target: THREE.Vector3;
+  position: THREE.Vector3;
+  // Restored when the flight ends
+  autoRotate: boolean;
+}
+
+// Flies the orbit target and camera to the latest focus request, keeping
+// the current viewing direction. Auto-rotate pauses during the flight, and
+// orbiting or zooming hands control straight back to the user.
+function CameraRig({ focus, gridSize }: { focus: CameraFocus | null; gridSize: number }) {
+  const controls = useThree((state) => state.controls) as OrbitControlsImpl | null;
+  const flight = useRef<Flight | null>(null);
+  const interrupted = useRef(false);
+  const lastId = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!controls) return;
+    const interrupt = () => {
+      interrupted.current = true;
+    };
+    controls.addEventListener('start', interrupt);
+    return () => controls.removeEventListener('start', interrupt);
+  }, [controls]);
+
+  useFrame((state) => {
+    const orbit = state.controls as OrbitControlsImpl | null;
+    if (!orbit) return;
+    const now = state.clock.elapsedTime;
+
+    if (focus && focus.tiles.length > 0 && focus.id !== lastId.current) {
+      lastId.current = focus.id;
+      const centers = focus.tiles.map(t => tileCenter(t.x, t.y, gridSize));
+      const target = new THREE.Vector3(
+        centers.reduce((sum, c) => sum + c[0], 0) / centers.length,
+        -2.5,
+        centers.reduce((sum, c) => sum + c[1], 0) / centers.length
+      );
+      const direction = state.camera.position.clone().sub(orbit.target).normalize();
+      flight.current = {
+        start: now,
+        fromTarget: orbit.target.clone(),
+        fromPosition: state.camera.position.clone(),
+        target,
+        position: target.clone().addScaledVector(direction, FOCUS_DISTANCE),
+        autoRotate: flight.current?.autoRotate ?? orbit.autoRotate,
+      };
+      orbit.autoRotate = false;
+      interrupted.current = false;
+    }
+
+    if (!flight.current) return;
+    const k = interrupted.current ? 1 : transitionProgress(flight.current.start, now, FLIGHT_MS);
+    if (!interrupted.current) {
+      orbit.target.lerpVectors(flight.current.fromTarget, flight.current.target, k);
+      state.camera.position.lerpVectors(flight.current.fromPosition, flight.current.position, k);
+    }
+    if (k >= 1) {
+      orbit.autoRotate = flight.current.autoRotate;
+      flight.current = null;
+    }
+  });
+
+  return null;
 }
 
-function Scene({ species, season }: SceneProps) {
+function Scene({
+  species,
+  tiles,
+  season,
+  gridSize,
+  selectedTile,
+  onTileSelect,
+  events,
+  highlightedEvent,
+  cameraFocus,
+  weather,
+  overlay,
+  overlayOpacity,
+  transitionMs,
+  terrainSource,
+}: SceneProps) {
+  const maps = useMemo(
+    () => (terrainSource === 'procedural' ? terrainMapsFor(tiles, gridSize) : null),
+    [terrainSource, tiles, gridSize]
+  );
   const sunPosition: [number, number, number] = [7, 7, 1];
 
   return (
@@ -46,13 +178,53 @@ function Scene({ species, season }: SceneProps) {
       />
 
       {/* Terrain */}
-      <Terrain position={[0, -3, 0]} species={species} season={season} />
+      <Terrain
+        position={TERRAIN_POSITION}
+        species={species}
+        season={season}
+        gridSize={gridSize}
+        onTileSelect={onTileSelect}
+        tiles={tiles}
+        overlay={overlay}
+        overlayOpacity={overlayOpacity}
+        transitionMs={transitionMs}
+        maps={maps}
+        snowLine={weather.snowLine}
+      />
+
+      {/* Rain, snow and heat shimmer */}
+      <WeatherEffects weather={weather} terrainPosition={TERRAIN_POSITION} />
+
+      {/* Tiles that changed last turn */}
+      <TileChangeGlow tiles={tiles} gridSize={gridSize} transitionMs={transitionMs} />
+
+      {/* Selected tile outline */}
+      {selectedTile && (
+        <TileHighlight tile={selectedTile} gridSize={gridSize} terrainPosition={TERRAIN_POSITION} />
+      )}
+
+      {/* This turn's events */}
+      <EventMarkers
+        events={events}
+        gridSize={gridSize}
+        highlightedEvent={highlightedEvent}
+        terrainPosition={TERRAIN_POSITION}
+      />
 
       {/* Species markers as dots on land */}
-      <SpeciesMarkers species={species} terrainSize={64} terrainPosition={[0, -3, 0]} />
+      <SpeciesMarkers
+        species={species}
+        tiles={tiles}
+        gridSize={gridSize}
+        terrainSize={64}
+        terrainPosition={TERRAIN_POSITION}
+        transitionMs={transitionMs}
+        maps={maps}
+      />
 
       {/* Camera controls */}
       <OrbitControls
+        makeDefault
         autoRotate
         autoRotateSpeed={0.3}
         enablePan={true}
@@ -62,29 +234,151 @@ function Scene({ species, season }: SceneProps) {
         maxDistance={50}
         maxPolarAngle={Math.PI / 2.2}
       />
+      <CameraRig focus={cameraFocus} gridSize={gridSize} />
     </>
   );
 }
 
-export default function EcosystemViewport({ species, season }: EcosystemViewportProps) {
+export default function EcosystemViewport({ canvasRef, temperature, climate, ...props }: EcosystemViewportProps) {
+  const [overlay, setOverlay] = useState<OverlayMode>('none');
+  const [overlayOpacity, setOverlayOpacity] = useState(0.6);
+  const [transitionMs, setTransitionMsState] = useState(getTransitionMs);
+  const [terrainSource, setTerrainSourceState] = useState<TerrainSource>(getTerrainSource);
+
+  const handleTerrainSourceChange = (source: TerrainSource) => {
+    setTerrainSource(source);
+    setTerrainSourceState(source);
+  };
+
+  const handleTransitionChange = (ms: number) => {
+    setTransitionMs(ms);
+    setTransitionMsState(ms);
+  };
+
+  const legend = overlayLegend(overlay, props.tiles, props.species);
+  const weather = weatherFor(props.season, temperature, climate);
+
   return (
-    <Canvas
-      camera={{ position: [20, 15, 20], fov: 45 }}
-      shadows
-      gl={{ antialias: true }}
-    >
-      <Suspense fallback={null}>
-        <Scene species={species} season={season} />
-      </Suspense>
-
-      {/* Post-processing effects */}
-      <EffectComposer>
-        <Bloom
-          luminanceThreshold={0.8}
-          luminanceSmoothing={0.9}
-          intensity={0.3}
-        />
-      </EffectComposer>
-    </Canvas>
+    <>
+      <Canvas
+        ref={canvasRef}
+        camera={{ position: [20, 15, 20], fov: 45 }}
+        shadows
+        // preserveDrawingBuffer lets save slots capture thumbnails
+        gl={{ antialias: true, preserveDrawingBuffer: true }}
+      >
+        <Suspense fallback={null}>
+          <Scene
+            {...props}
+            weather={weather}
+            overlay={overlay}
+            overlayOpacity={overlayOpacity}
+            transitionMs={transitionMs}
+            terrainSource={terrainSource}
+          />
+        </Suspense>
+
+        {/* Post-processing effects */}
+        <EffectComposer>
+          <Bloom
+            luminanceThreshold={0.8}
+            luminanceSmoothing={0.9}
+            intensity={0.3}
+          />
+        </EffectComposer>
+      </Canvas>
+
+      {/* Autumn and dry-season haze */}
+      <div
+        className="pointer-events-none absolute inset-0 transition-opacity duration-1000"
+        style={{
+          opacity: weather.haze,
+          background: 'linear-gradient(to bottom, rgba(214, 190, 150, 0.45), rgba(214, 190, 150, 0.15) 60%, rgba(214, 190, 150, 0.3))',
+        }}
+      />
+
+      {/* Climate events and weather disasters in effect */}
+      {climate.length > 0 && (
+        <div className="pointer-events-none absolute top-4 left-4 z-10 flex flex-wrap gap-2">
+          {climate.map((event, i) => (
+            <span
+              key={`${weatherName(event)}-${i}`}
+              className="bg-zinc-900/80 backdrop-blur border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300"
+            >
+              {weatherName(event)} <span className="text-zinc-500">({event.intensity})</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Map overlay and transition controls */}
+      <div className="absolute bottom-4 left-4 z-10 bg-zinc-900/80 backdrop-blur border border-zinc-700 rounded-lg p-3 w-52 space-y-2">
+        <div className="text-xs font-medium text-zinc-400 uppercase tracking-wide">Map View</div>
+        <select
+          value={overlay}
+          onChange={(e) => setOverlay(e.target.value as OverlayMode)}
+          className="w-full bg-zinc-800 border border-zinc-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-cyan-500"
+        >
+          {(Object.keys(OVERLAY_LABELS) as OverlayMode[]).map((mode) => (
+            <option key={mode} value={mode}>{OVERLAY_LABELS[mode]}</option>
+          ))}
+        </select>
+
+        {overlay !== 'none' && (
+          <>
+            <label className="flex items-center gap-2 text-xs text-zinc-400">
+              Opacity
+              <input
+                type="range"
+                min={0.1}
+                max={1}
+                step={0.05}
+                value={overlayOpacity}
+                onChange={(e) => setOverlayOpacity(Number(e.target.value))}
+                className="flex-1 accent-cyan-500"
+              />
+            </label>
+            <div className="space-y-1">
+              {legend.map((entry) => (
+                <div key={entry.label} className="flex items-center gap-2 text-xs text-zinc-300">
+                  <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: entry.color }} />
+                  <span className="capitalize">{entry.label}</span>
+                </div>
+              ))}
+            </div>
+            {overlay === 'density' && (
+              <div className="text-xs text-zinc-500">Estimated individuals per tile</div>
+            )}
+          </>
+        )}
+
+        <label className="flex items-center gap-2 text-xs text-zinc-400 pt-1 border-t border-zinc-700">
+          Terrain
+          <select
+            value={terrainSource}
+            onChange={(e) => handleTerrainSourceChange(e.target.value as TerrainSource)}
+            className="flex-1 bg-zinc-800 border border-zinc-600 rounded px-1 py-0.5 text-xs focus:outline-none focus:border-cyan-500"
+          >
+            {(Object.keys(TERRAIN_SOURCE_LABELS) as TerrainSource[]).map((source) => (
+              <option key={source} value={source}>{TERRAIN_SOURCE_LABELS[source]}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2 text-xs text-zinc-400">
+          Transitions
+          <input
+            type="range"
+            min={0}
+            max={MAX_TRANSITION_MS}
+            step={100}
+            value={transitionMs}
+            onChange={(e) => handleTransitionChange(Number(e.target.value))}
+            className="flex-1 accent-cyan-500"
+          />
+          <span className="w-8 text-right font-mono">{transitionMs === 0 ? 'off' : `${(transitionMs / 1000).toFixed(1)}s`}</span>
+        </label>
+      </div>
+    </>
   );
 }
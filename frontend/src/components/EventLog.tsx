@@ -1,9 +1,17 @@
-import type { SimulationEvent } from '../types';
+import type { InterventionRequest, SimulationEvent } from '../types';
+import { INTERVENTION_LABELS, describeIntervention } from '../interventions';
 
 interface EventLogProps {
+  turn: number;
+  // Interventions applied on the turn that led to `turn`
+  interventions: InterventionRequest[];
   events: SimulationEvent[];
   narration: string;
   warnings: string[];
+  // Hovering an event highlights its tiles on the map; clicking flies there
+  highlightedEvent?: number | null;
+  onHoverEvent?: (index: number | null) => void;
+  onSelectEvent?: (index: number) => void;
 }
 
 function getSeverityColor(severity: string): string {
@@ -17,7 +25,16 @@ function getSeverityColor(severity: string): string {
   }
 }
 
-export default function EventLog({ events, narration, warnings }: EventLogProps) {
+export default function EventLog({
+  turn,
+  interventions,
+  events,
+  narration,
+  warnings,
+  highlightedEvent = null,
+  onHoverEvent,
+  onSelectEvent,
+}: EventLogProps) {
   return (
     <div className="bg-zinc-900/80 backdrop-blur border border-zinc-700 rounded-lg p-4 flex flex-col h-full">
       <div className="text-sm font-medium text-zinc-400 uppercase tracking-wide mb-3">
@@ -32,6 +49,19 @@ export default function EventLog({ events, narration, warnings }: EventLogProps)
           </div>
         )}
 
+        {/* Interventions */}
+        {interventions.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs text-zinc-500">Applied on turn {turn}</div>
+            {interventions.map((intervention, i) => (
+              <div key={i} className="text-sm text-cyan-200 bg-cyan-900/20 border-l-2 border-l-cyan-500 pl-3 py-1.5 rounded-r">
+                <span className="text-xs text-cyan-400 mr-2">{INTERVENTION_LABELS[intervention.kind]}</span>
+                {describeIntervention(intervention)}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Warnings */}
         {warnings.length > 0 && (
           <div className="space-y-2">
@@ -49,21 +79,33 @@ export default function EventLog({ events, narration, warnings }: EventLogProps)
         {/* Events */}
         {events.length > 0 && (
           <div className="space-y-2">
-            {events.map((event, i) => (
-              <div
-                key={i}
-                className={`text-sm border-l-2 pl-3 py-2 rounded-r ${getSeverityColor(
-                  event.severity
-                )}`}
-              >
-                <div className="text-zinc-200">{event.description}</div>
-                {event.affected_species.length > 0 && (
-                  <div className="text-xs text-zinc-500 mt-1">
-                    Affected: {event.affected_species.join(', ')}
-                  </div>
-                )}
-              </div>
-            ))}
+            {events.map((event, i) => {
+              const onMap = event.affected_tiles.length > 0;
+              return (
+                <div
+                  key={i}
+                  onMouseEnter={() => onHoverEvent?.(i)}
+                  onMouseLeave={() => onHoverEvent?.(null)}
+                  onClick={onMap ? () => onSelectEvent?.(i) : undefined}
+                  className={`text-sm border-l-2 pl-3 py-2 rounded-r ${getSeverityColor(
+                    event.severity
+                  )} ${onMap ? 'cursor-pointer' : ''} ${highlightedEvent === i ? 'ring-1 ring-zinc-500' : ''}`}
+                  title={onMap ? 'Click to show on the map' : undefined}
+                >
+                  <div className="text-zinc-200">{event.description}</div>
+                  {event.affected_species.length > 0 && (
+                    <div className="text-xs text-zinc-500 mt-1">
+                      Affected: {event.affected_species.join(', ')}
+                    </div>
+                  )}
+                  {onMap && (
+                    <div className="text-xs text-zinc-500 mt-1">
+                      📍 {event.affected_tiles.length} tile{event.affected_tiles.length === 1 ? '' : 's'}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
           </div>
         )}
 
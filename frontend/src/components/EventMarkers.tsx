@@ -0,0 +1,113 @@
+import { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import type { SimulationEvent } from '../types';
+import { SEVERITY_COLORS } from '../types';
+import { tileCenter, TERRAIN_SIZE } from '../tileGrid';
+
+interface EventMarkersProps {
+  events: SimulationEvent[];
+  gridSize: number;
+  // Index into `events` hovered in the event log
+  highlightedEvent: number | null;
+  terrainSize?: number;
+  terrainPosition?: [number, number, number];
+}
+
+// Same column trick as TileHighlight: a see-through box tall enough to wrap
+// the displaced terrain tints whatever ground is inside it
+const TINT_HEIGHT = 1.4;
+// Rings float just above the highest terrain
+const RING_HEIGHT = 1.1;
+// Pulses per second
+const PULSE_RATE = 0.8;
+
+const SCORCH_WORDS = ['fire', 'burn', 'drought', 'heat', 'volcan', 'lava', 'meteor', 'scorch', 'wildfire'];
+const FLOOD_WORDS = ['flood', 'rain', 'storm', 'tsunami', 'hurricane', 'monsoon', 'wave'];
+
+const SCORCH_COLOR = '#7a3210';
+const FLOOD_COLOR = '#1f6fd1';
+
+// Fire-like events scorch the ground, water-like ones flood it; anything
+// else is tinted by severity
+function tintColor(event: SimulationEvent): string {
+  const text = event.description.toLowerCase();
+  if (SCORCH_WORDS.some(w => text.includes(w))) return SCORCH_COLOR;
+  if (FLOOD_WORDS.some(w => text.includes(w))) return FLOOD_COLOR;
+  return SEVERITY_COLORS[event.severity];
+}
+
+export default function EventMarkers({
+  events,
+  gridSize,
+  highlightedEvent,
+  terrainSize = TERRAIN_SIZE,
+  terrainPosition = [0, -3, 0],
+}: EventMarkersProps) {
+  const ringsRef = useRef<THREE.Group>(null);
+  const tileSize = terrainSize / gridSize;
+
+  // Pulse every ring outward and fade it, staggered per ring
+  useFrame((state) => {
+    ringsRef.current?.children.forEach((ring, i) => {
+      const phase = (state.clock.elapsedTime * PULSE_RATE + i * 0.17) % 1;
+      ring.scale.setScalar(0.6 + phase * 0.6);
+      const material = (ring as THREE.Mesh).material as THREE.MeshBasicMaterial;
+      material.opacity = ring.userData.baseOpacity * (1 - phase);
+    });
+  });
+
+  const focused = (index: number) => highlightedEvent === null || highlightedEvent === index;
+
+  return (
+    <group>
+      {/* Ground tints */}
+      {events.map((event, i) =>
+        event.affected_tiles.map((tile) => {
+          const [worldX, worldZ] = tileCenter(tile.x, tile.y, gridSize, terrainSize, terrainPosition);
+          return (
+            <mesh
+              key={`tint-${i}-${tile.x}-${tile.y}`}
+              position={[worldX, terrainPosition[1] + TINT_HEIGHT / 2, worldZ]}
+              raycast={() => null}
+            >
+              <boxGeometry args={[tileSize, TINT_HEIGHT, tileSize]} />
+              <meshBasicMaterial
+                color={tintColor(event)}
+                transparent
+                opacity={highlightedEvent === i ? 0.35 : focused(i) ? 0.18 : 0.06}
+                depthWrite={false}
+              />
+            </mesh>
+          );
+        })
+      )}
+
+      {/* Pulsing rings */}
+      <group ref={ringsRef}>
+        {events.map((event, i) =>
+          event.affected_tiles.map((tile) => {
+            const [worldX, worldZ] = tileCenter(tile.x, tile.y, gridSize, terrainSize, terrainPosition);
+            return (
+              <mesh
+                key={`ring-${i}-${tile.x}-${tile.y}`}
+                position={[worldX, terrainPosition[1] + RING_HEIGHT, worldZ]}
+                rotation={[-Math.PI / 2, 0, 0]}
+                userData={{ baseOpacity: focused(i) ? 0.9 : 0.2 }}
+                raycast={() => null}
+              >
+                <ringGeometry args={[tileSize * 0.32, tileSize * 0.4, 32]} />
+                <meshBasicMaterial
+                  color={SEVERITY_COLORS[event.severity]}
+                  transparent
+                  depthWrite={false}
+                  side={THREE.DoubleSide}
+                />
+              </mesh>
+            );
+          })
+        )}
+      </group>
+    </group>
+  );
+}
@@ -0,0 +1,149 @@
+import { useMemo, useState } from 'react';
+import type { Species } from '../types';
+import { DIET_COLORS, SPECIES_ICONS } from '../types';
+import { buildFoodWeb, trophicCascade } from '../foodWeb';
+import type { FoodWebNode } from '../foodWeb';
+
+interface FoodWebPanelProps {
+  species: Species[];
+}
+
+// Graph geometry in SVG user units (scaled to the panel width)
+const WIDTH = 280;
+const ROW_HEIGHT = 56;
+const PADDING = 18;
+
+function nodeRadius(node: FoodWebNode): number {
+  if (node.dangling) return 7;
+  return 6 + Math.log10(node.population + 1) * 2.5;
+}
+
+export default function FoodWebPanel({ species }: FoodWebPanelProps) {
+  const [focused, setFocused] = useState<string | null>(null);
+
+  const web = useMemo(() => buildFoodWeb(species), [species]);
+
+  // Lay out one row per trophic level, producers at the bottom
+  const layout = useMemo(() => {
+    const maxLevel = Math.max(0, ...web.nodes.map(n => n.level));
+    const positions = new Map<string, { x: number; y: number }>();
+
+    for (let level = 0; level <= maxLevel; level++) {
+      const row = web.nodes
+        .filter(n => n.level === level)
+        .sort((a, b) => a.name.localeCompare(b.name));
+      row.forEach((node, i) => {
+        positions.set(node.name, {
+          x: PADDING + ((i + 0.5) / row.length) * (WIDTH - PADDING * 2),
+          y: PADDING + (maxLevel - level) * ROW_HEIGHT,
+        });
+      });
+    }
+
+    return { positions, height: PADDING * 2 + maxLevel * ROW_HEIGHT };
+  }, [web]);
+
+  // Ignore a stale focus if that species has left the web
+  const activeFocus = focused && web.nodes.some(n => n.name === focused) ? focused : null;
+  const cascade = activeFocus ? trophicCascade(web, activeFocus) : null;
+  const danglingCount = web.nodes.filter(n => n.dangling).length;
+
+  return (
+    <div className="bg-zinc-900/80 backdrop-blur border border-zinc-700 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-sm font-medium text-zinc-400 uppercase tracking-wide">
+          Food Web
+        </div>
+        {activeFocus && (
+          <button
+            onClick={() => setFocused(null)}
+            className="text-xs text-zinc-400 hover:text-zinc-200"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${layout.height}`} className="w-full h-auto select-none">
+        <defs>
+          <marker id="foodweb-arrow" viewBox="0 0 6 6" refX="5" refY="3" markerWidth="5" markerHeight="5" orient="auto">
+            <path d="M0,0 L6,3 L0,6 z" fill="#71717a" />
+          </marker>
+        </defs>
+
+        {/* Edges: prey -> predator */}
+        {web.edges.map((edge) => {
+          const from = layout.positions.get(edge.prey);
+          const to = layout.positions.get(edge.predator);
+          if (!from || !to) return null;
+          const dimmed = cascade && !(cascade.has(edge.prey) && cascade.has(edge.predator));
+
+          return (
+            <line
+              key={`${edge.prey}->${edge.predator}`}
+              x1={from.x} y1={from.y}
+              x2={to.x} y2={to.y}
+              stroke={edge.dangling ? '#f59e0b' : '#71717a'}
+              strokeWidth={1}
+              strokeDasharray={edge.dangling ? '3 2' : undefined}
+              markerEnd="url(#foodweb-arrow)"
+              opacity={dimmed ? 0.1 : 0.7}
+            />
+          );
+        })}
+
+        {/* Nodes */}
+        {web.nodes.map((node) => {
+          const pos = layout.positions.get(node.name);
+          if (!pos) return null;
+          const r = nodeRadius(node);
+          const dimmed = cascade && !cascade.has(node.name);
+          const fill = node.dangling || node.extinct
+            ? '#27272a'
+            : node.diet ? DIET_COLORS[node.diet] : '#ffffff';
+
+          return (
+            <g
+              key={node.name}
+              transform={`translate(${pos.x}, ${pos.y})`}
+              opacity={dimmed ? 0.2 : 1}
+              onClick={() => setFocused(node.name === activeFocus ? null : node.name)}
+              className="cursor-pointer"
+            >
+              <title>
+                {node.dangling
+                  ? `${node.name}: referenced but not in the ecosystem`
+                  : `${node.name}: ${node.extinct ? 'extinct' : node.population}`}
+              </title>
+              <circle
+                r={r}
+                fill={fill}
+                fillOpacity={node.dangling || node.extinct ? 1 : 0.85}
+                stroke={node.dangling ? '#f59e0b' : node.extinct ? '#ef4444' : node.name === activeFocus ? '#ffffff' : 'none'}
+                strokeWidth={1.5}
+                strokeDasharray={node.dangling ? '2 2' : undefined}
+              />
+              <text textAnchor="middle" dominantBaseline="central" fontSize={r * 1.1}>
+                {node.dangling ? '?' : node.extinct ? '✕' : SPECIES_ICONS[node.name] || ''}
+              </text>
+              <text y={r + 8} textAnchor="middle" fontSize="7" fill={node.extinct ? '#ef4444' : '#a1a1aa'}>
+                {node.name}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      {danglingCount > 0 && (
+        <div className="mt-2 text-xs text-amber-400">
+          ⚠️ {danglingCount} referenced species missing from the ecosystem
+        </div>
+      )}
+      {!activeFocus && (
+        <div className="mt-1 text-xs text-zinc-500">
+          Click a species to highlight its trophic cascade.
+        </div>
+      )}
+    </div>
+  );
+}
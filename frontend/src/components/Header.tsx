@@ -1,14 +1,44 @@
 import { useRef } from 'react';
+import type { ProviderId } from '../api';
 
 interface HeaderProps {
   turn: number;
   season: string;
   onSave: () => void;
   onLoad: (file: File) => void;
+  onCompare: () => void;
+  onOpenSlots: () => void;
+  onOpenScenario: () => void;
+  providerId: ProviderId;
+  onProviderChange: (id: ProviderId) => void;
+  onLoadRecording: (file: File) => void;
+  onExportRecording: () => void;
+  // Can't switch mid-turn or during auto-play
+  simulationLocked: boolean;
 }
 
-export default function Header({ turn, season, onSave, onLoad }: HeaderProps) {
+export default function Header({
+  turn,
+  season,
+  onSave,
+  onLoad,
+  onCompare,
+  onOpenSlots,
+  onOpenScenario,
+  providerId,
+  onProviderChange,
+  onLoadRecording,
+  onExportRecording,
+  simulationLocked,
+}: HeaderProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+
+  const subtitles: Record<ProviderId, string> = {
+    http: 'Powered by Gemini',
+    offline: 'Offline rules engine',
+    replay: 'Replaying a recording',
+  };
 
   const seasonEmoji: Record<string, string> = {
     spring: '🌸',
@@ -27,17 +57,56 @@ export default function Header({ turn, season, onSave, onLoad }: HeaderProps) {
     }
   };
 
+  // Replays need a recording, so picking one asks for the file first
+  const handleProviderSelect = (id: ProviderId) => {
+    if (id === 'replay') {
+      recordingInputRef.current?.click();
+    } else {
+      onProviderChange(id);
+    }
+  };
+
+  const handleRecordingChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onLoadRecording(file);
+      e.target.value = '';
+    }
+  };
+
   return (
     <header className="bg-zinc-900/80 backdrop-blur border-b border-zinc-700 px-6 py-4 flex items-center justify-between">
       <div className="flex items-center gap-3">
         <div className="text-2xl">🌍</div>
         <div>
           <h1 className="text-xl font-bold tracking-tight">EcoSim AI</h1>
-          <p className="text-xs text-zinc-500">Powered by Gemini</p>
+          <p className="text-xs text-zinc-500">
+            {subtitles[providerId]}
+          </p>
         </div>
       </div>
 
       <div className="flex items-center gap-6">
+        {/* Simulation provider */}
+        <select
+          value={providerId}
+          onChange={(e) => handleProviderSelect(e.target.value as ProviderId)}
+          disabled={simulationLocked}
+          className="bg-zinc-800 border border-zinc-600 rounded px-2 py-1.5 text-sm focus:outline-none focus:border-cyan-500 disabled:opacity-50"
+          title="Which simulation advances turns"
+        >
+          <option value="http">Gemini backend</option>
+          <option value="offline">Offline engine</option>
+          <option value="replay">Replay recording...</option>
+        </select>
+        <input
+          ref={recordingInputRef}
+          type="file"
+          accept=".json"
+          onChange={handleRecordingChange}
+          className="hidden"
+        />
+
         {/* Save/Load buttons */}
         <div className="flex items-center gap-2">
           <button
@@ -54,6 +123,34 @@ export default function Header({ turn, season, onSave, onLoad }: HeaderProps) {
           >
             Load
           </button>
+          <button
+            onClick={onOpenSlots}
+            className="px-3 py-1.5 text-sm bg-zinc-800 hover:bg-zinc-700 border border-zinc-600 rounded transition-colors"
+            title="Browser save slots and autosave"
+          >
+            Slots
+          </button>
+          <button
+            onClick={onCompare}
+            className="px-3 py-1.5 text-sm bg-zinc-800 hover:bg-zinc-700 border border-zinc-600 rounded transition-colors"
+            title="Compare two turns, branches or save files"
+          >
+            Compare
+          </button>
+          <button
+            onClick={onOpenScenario}
+            className="px-3 py-1.5 text-sm bg-zinc-800 hover:bg-zinc-700 border border-zinc-600 rounded transition-colors"
+            title="Author a custom starting ecosystem"
+          >
+            Scenario
+          </button>
+          <button
+            onClick={onExportRecording}
+            className="px-3 py-1.5 text-sm bg-zinc-800 hover:bg-zinc-700 border border-zinc-600 rounded transition-colors"
+            title="Download every turn since the ecosystem was created or loaded, for replay"
+          >
+            Record
+          </button>
           <input
             ref={fileInputRef}
             type="file"
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import type { InterventionKind } from '../types';
+import type { InterventionLogEntry } from '../interventions';
+import { INTERVENTION_LABELS, describeIntervention } from '../interventions';
+import { downloadJson } from '../saveFile';
+import { ROOT_BRANCH } from '../timeline';
+
+interface InterventionLogProps {
+  entries: InterventionLogEntry[];
+}
+
+const KIND_COLORS: Record<InterventionKind, string> = {
+  introduce_species: 'text-green-400 border-green-700/50',
+  remove_species: 'text-orange-400 border-orange-700/50',
+  natural_disaster: 'text-amber-400 border-amber-700/50',
+  change_climate: 'text-sky-400 border-sky-700/50',
+  calamity: 'text-red-400 border-red-700/50',
+};
+
+export default function InterventionLog({ entries }: InterventionLogProps) {
+  const [filter, setFilter] = useState<InterventionKind | ''>('');
+
+  const shown = entries
+    .map(entry => ({
+      ...entry,
+      interventions: entry.interventions.filter(i => !filter || i.kind === filter),
+    }))
+    .filter(entry => entry.interventions.length > 0);
+
+  return (
+    <div className="bg-zinc-900/80 backdrop-blur border border-zinc-700 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-zinc-400 uppercase tracking-wide">
+          Interventions
+        </div>
+        <button
+          onClick={() => downloadJson(entries, 'ecosim-interventions.json')}
+          disabled={entries.length === 0}
+          className="text-xs px-2 py-0.5 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 border border-zinc-600 rounded"
+          title="Download the structured intervention log"
+        >
+          Export
+        </button>
+      </div>
+
+      <select
+        value={filter}
+        onChange={(e) => setFilter(e.target.value as InterventionKind | '')}
+        className="w-full bg-zinc-800 border border-zinc-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-cyan-500"
+      >
+        <option value="">All kinds</option>
+        {(Object.keys(INTERVENTION_LABELS) as InterventionKind[]).map((kind) => (
+          <option key={kind} value={kind}>{INTERVENTION_LABELS[kind]}</option>
+        ))}
+      </select>
+
+      <div className="space-y-2 max-h-48 overflow-y-auto">
+        {shown.length === 0 && (
+          <div className="text-xs text-zinc-500 italic">No interventions on this timeline yet.</div>
+        )}
+        {shown.map((entry) => (
+          <div key={`${entry.branch}@${entry.turn}`}>
+            <div className="text-xs text-zinc-500 mb-1">
+              Turn {entry.turn}
+              {entry.branch !== ROOT_BRANCH && <span className="text-zinc-600"> · {entry.branch}</span>}
+            </div>
+            {entry.interventions.map((intervention, i) => (
+              <div key={i} className="flex items-start gap-2 text-xs text-zinc-300 mb-1">
+                <span className={`shrink-0 border rounded px-1 ${KIND_COLORS[intervention.kind]}`}>
+                  {INTERVENTION_LABELS[intervention.kind]}
+                </span>
+                <span>{describeIntervention(intervention)}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
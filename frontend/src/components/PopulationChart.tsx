@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react';
+import type { EcosystemState } from '../types';
+import { DIET_COLORS, SPECIES_ICONS } from '../types';
+import { dietSeries, speciesSeries } from '../history';
+import { hashString } from '../random';
+
+interface PopulationChartProps {
+  history: EcosystemState[];
+}
+
+type ScaleMode = 'log' | 'linear';
+type GroupMode = 'species' | 'diet';
+
+// Chart geometry in SVG user units (scaled to the panel width)
+const WIDTH = 280;
+const HEIGHT = 150;
+const PADDING = { top: 8, right: 8, bottom: 18, left: 34 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+// Distinct line colors for per-species mode
+const SERIES_PALETTE = [
+  '#22d3ee', '#a3e635', '#f472b6', '#facc15', '#fb923c',
+  '#818cf8', '#34d399', '#f87171', '#c084fc', '#94a3b8',
+];
+
+function seriesColor(name: string, group: GroupMode): string {
+  if (group === 'diet') return DIET_COLORS[name as keyof typeof DIET_COLORS] ?? '#ffffff';
+  return SERIES_PALETTE[hashString(name) % SERIES_PALETTE.length];
+}
+
+function formatPopulation(pop: number): string {
+  if (pop >= 1000) return `${(pop / 1000).toFixed(1)}k`;
+  return Math.round(pop).toString();
+}
+
+export default function PopulationChart({ history }: PopulationChartProps) {
+  const [scale, setScale] = useState<ScaleMode>('log');
+  const [group, setGroup] = useState<GroupMode>('species');
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const series = useMemo(
+    () => (group === 'diet' ? dietSeries(history) : speciesSeries(history)),
+    [history, group]
+  );
+
+  const maxValue = Math.max(1, ...series.flatMap(s => s.values));
+
+  // Log scale uses log10(v + 1) so extinct (0) species sit on the baseline
+  const project = (v: number): number => {
+    const ratio = scale === 'log'
+      ? Math.log10(v + 1) / Math.log10(maxValue + 1)
+      : v / maxValue;
+    return PADDING.top + PLOT_HEIGHT * (1 - ratio);
+  };
+
+  const xAt = (i: number): number =>
+    PADDING.left + (history.length > 1 ? (i / (history.length - 1)) * PLOT_WIDTH : PLOT_WIDTH / 2);
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const ratio = (x - PADDING.left) / PLOT_WIDTH;
+    const index = Math.round(ratio * (history.length - 1));
+    setHoverIndex(Math.max(0, Math.min(history.length - 1, index)));
+  };
+
+  const hovered = hoverIndex !== null ? history[hoverIndex] : null;
+
+  return (
+    <div className="bg-zinc-900/80 backdrop-blur border border-zinc-700 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-sm font-medium text-zinc-400 uppercase tracking-wide">
+          Population History
+        </div>
+        <div className="flex gap-1">
+          <button
+            onClick={() => setGroup(group === 'species' ? 'diet' : 'species')}
+            className="text-xs px-2 py-0.5 bg-zinc-800 hover:bg-zinc-700 border border-zinc-600 rounded"
+            title="Toggle per-species / per-diet grouping"
+          >
+            {group === 'species' ? 'Species' : 'Diet'}
+          </button>
+          <button
+            onClick={() => setScale(scale === 'log' ? 'linear' : 'log')}
+            className="text-xs px-2 py-0.5 bg-zinc-800 hover:bg-zinc-700 border border-zinc-600 rounded"
+            title="Toggle log / linear scale"
+          >
+            {scale === 'log' ? 'Log' : 'Linear'}
+          </button>
+        </div>
+      </div>
+
+      {history.length < 2 ? (
+        <div className="text-sm text-zinc-500 italic">
+          Advance a few turns to see population trends...
+        </div>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-auto select-none"
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => setHoverIndex(null)}
+          >
+            {/* Axes */}
+            <line
+              x1={PADDING.left} y1={PADDING.top + PLOT_HEIGHT}
+              x2={PADDING.left + PLOT_WIDTH} y2={PADDING.top + PLOT_HEIGHT}
+              stroke="#3f3f46"
+            />
+            <line
+              x1={PADDING.left} y1={PADDING.top}
+              x2={PADDING.left} y2={PADDING.top + PLOT_HEIGHT}
+              stroke="#3f3f46"
+            />
+            <text x={PADDING.left - 4} y={PADDING.top + 4} textAnchor="end" fontSize="8" fill="#71717a">
+              {formatPopulation(maxValue)}
+            </text>
+            <text x={PADDING.left - 4} y={PADDING.top + PLOT_HEIGHT} textAnchor="end" fontSize="8" fill="#71717a">
+              0
+            </text>
+            <text x={PADDING.left} y={HEIGHT - 4} fontSize="8" fill="#71717a">
+              T{history[0].turn}
+            </text>
+            <text x={PADDING.left + PLOT_WIDTH} y={HEIGHT - 4} textAnchor="end" fontSize="8" fill="#71717a">
+              T{history[history.length - 1].turn}
+            </text>
+
+            {/* Series */}
+            {series.map((s) => (
+              <polyline
+                key={s.name}
+                points={s.values.map((v, i) => `${xAt(i)},${project(v)}`).join(' ')}
+                fill="none"
+                stroke={seriesColor(s.name, group)}
+                strokeWidth={1.5}
+                strokeLinejoin="round"
+              />
+            ))}
+
+            {/* Hover cursor */}
+            {hoverIndex !== null && (
+              <line
+                x1={xAt(hoverIndex)} y1={PADDING.top}
+                x2={xAt(hoverIndex)} y2={PADDING.top + PLOT_HEIGHT}
+                stroke="#a1a1aa"
+                strokeDasharray="2 2"
+              />
+            )}
+          </svg>
+
+          {/* Hover readout / legend */}
+          <div className="mt-2 text-xs">
+            {hovered && (
+              <div className="text-zinc-400 mb-1">
+                Turn {hovered.turn} · <span className="capitalize">{hovered.season}</span>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-x-3 gap-y-0.5">
+              {series.map((s) => {
+                const value = s.values[hoverIndex ?? s.values.length - 1];
+                const label = group === 'species'
+                  ? `${SPECIES_ICONS[s.name] || SPECIES_ICONS.default} ${s.name}`
+                  : s.name;
+                return (
+                  <div key={s.name} className="flex items-center justify-between gap-1">
+                    <span className="flex items-center gap-1 truncate">
+                      <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: seriesColor(s.name, group) }}></span>
+                      <span className="truncate capitalize">{label}</span>
+                    </span>
+                    <span className="font-mono text-zinc-300">{formatPopulation(value)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
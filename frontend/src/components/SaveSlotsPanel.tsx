@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import type { SaveSlot } from '../saveSlots';
+import { listSlots, deleteSlot, getAutosaveInterval, setAutosaveInterval } from '../saveSlots';
+
+interface SaveSlotsPanelProps {
+  onSaveNew: (name: string) => Promise<void>;
+  onOverwrite: (slot: SaveSlot) => Promise<void>;
+  onLoad: (slot: SaveSlot) => void;
+  onClose: () => void;
+}
+
+const AUTOSAVE_OPTIONS = [
+  { value: 0, label: 'Off' },
+  { value: 1, label: 'Every turn' },
+  { value: 5, label: 'Every 5 turns' },
+  { value: 10, label: 'Every 10 turns' },
+];
+
+export default function SaveSlotsPanel({ onSaveNew, onOverwrite, onLoad, onClose }: SaveSlotsPanelProps) {
+  const [slots, setSlots] = useState<SaveSlot[]>([]);
+  const [name, setName] = useState('');
+  const [autosaveInterval, setAutosaveIntervalState] = useState(getAutosaveInterval);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    listSlots()
+      .then(result => {
+        if (!cancelled) setSlots(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(`Couldn't read saved slots: ${err instanceof Error ? err.message : err}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const refresh = () => setRefreshKey(k => k + 1);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      console.error('Save slot error:', err);
+    }
+  };
+
+  const handleSaveNew = () => run(async () => {
+    await onSaveNew(name.trim() || `Save ${slots.filter(s => !s.autosave).length + 1}`);
+    setName('');
+  });
+
+  const handleIntervalChange = (value: number) => {
+    setAutosaveIntervalState(value);
+    setAutosaveInterval(value);
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-zinc-900 border border-zinc-700 rounded-lg w-full max-w-xl max-h-full overflow-y-auto p-4 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-medium text-zinc-400 uppercase tracking-wide">
+            Save Slots
+          </div>
+          <button onClick={onClose} className="text-zinc-400 hover:text-zinc-200 px-2" aria-label="Close save slots">
+            ✕
+          </button>
+        </div>
+
+        {/* New slot */}
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Slot name"
+            className="flex-1 min-w-0 bg-zinc-800 border border-zinc-600 rounded px-3 py-2 text-sm focus:outline-none focus:border-cyan-500"
+          />
+          <button
+            onClick={handleSaveNew}
+            className="bg-cyan-600 hover:bg-cyan-500 text-white text-sm px-3 rounded transition-colors"
+          >
+            Save New
+          </button>
+        </div>
+
+        {/* Autosave */}
+        <label className="flex items-center justify-between text-sm">
+          <span className="text-zinc-400">Autosave</span>
+          <select
+            value={autosaveInterval}
+            onChange={(e) => handleIntervalChange(Number(e.target.value))}
+            className="bg-zinc-800 border border-zinc-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-cyan-500"
+          >
+            {AUTOSAVE_OPTIONS.map((opt) => (
+              <option key={opt.value} value={opt.value}>
+                {opt.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {error && (
+          <div className="text-sm text-red-300 bg-red-900/30 border border-red-700/50 rounded px-3 py-2">
+            {error}
+          </div>
+        )}
+
+        {/* Slot list */}
+        <div className="space-y-2">
+          {slots.length === 0 && (
+            <div className="text-sm text-zinc-500 italic">No saved slots yet.</div>
+          )}
+          {slots.map((slot) => (
+            <div key={slot.id} className="flex gap-3 bg-zinc-800/60 rounded p-2">
+              {slot.thumbnail ? (
+                <img src={slot.thumbnail} alt="" className="w-28 h-16 object-cover rounded shrink-0" />
+              ) : (
+                <div className="w-28 h-16 rounded bg-zinc-800 shrink-0 flex items-center justify-center text-2xl">🌍</div>
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate">{slot.name}</span>
+                  {slot.autosave && (
+                    <span className="text-xs text-cyan-400 border border-cyan-700/50 rounded px-1">auto</span>
+                  )}
+                </div>
+                <div className="text-xs text-zinc-500">
+                  Turn {slot.turn} · <span className="capitalize">{slot.season}</span>
+                </div>
+                <div className="text-xs text-zinc-600">{new Date(slot.savedAt).toLocaleString()}</div>
+              </div>
+              <div className="flex flex-col gap-1 text-xs">
+                <button
+                  onClick={() => onLoad(slot)}
+                  className="px-2 py-0.5 bg-zinc-700 hover:bg-zinc-600 rounded"
+                >
+                  Load
+                </button>
+                {!slot.autosave && (
+                  <button
+                    onClick={() => run(() => onOverwrite(slot))}
+                    className="px-2 py-0.5 bg-zinc-700 hover:bg-zinc-600 rounded"
+                  >
+                    Overwrite
+                  </button>
+                )}
+                <button
+                  onClick={() => run(() => deleteSlot(slot.id))}
+                  className="px-2 py-0.5 text-red-300 hover:bg-red-900/40 rounded"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
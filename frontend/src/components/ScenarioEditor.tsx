@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import type { BiomeType, EcosystemState, Species } from '../types';
+import { BIOME_COLORS, DIET_COLORS, SPECIES_ICONS } from '../types';
+import { BIOME_TYPES, SEASONS } from '../schema';
+import {
+  checkScenario,
+  createSpecies,
+  finalizeScenario,
+  removeSpecies,
+  renameSpecies,
+  resizeGrid,
+  symmetrizeLinks,
+} from '../scenario';
+import { createSaveFile, downloadSaveFile } from '../saveFile';
+import SpeciesDesigner from './SpeciesDesigner';
+
+interface ScenarioEditorProps {
+  initial: EcosystemState;
+  onLoad: (state: EcosystemState) => Promise<void>;
+  onClose: () => void;
+  // Shown inside the modal, since the app's error banner sits behind it
+  error: string | null;
+}
+
+const inputClass = 'w-full bg-zinc-800 border border-zinc-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-cyan-500';
+
+interface SpeciesCardProps {
+  species: Species;
+  others: Species[];
+  onChange: (species: Species) => void;
+  onRemove: () => void;
+}
+
+function SpeciesCard({ species, others, onChange, onRemove }: SpeciesCardProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="bg-zinc-800/60 rounded p-2">
+      <div className="flex items-center justify-between">
+        <button type="button" onClick={() => setOpen(!open)} className="flex items-center gap-2 text-sm text-left flex-1">
+          <span>{SPECIES_ICONS[species.name] || SPECIES_ICONS.default}</span>
+          <span className="font-medium">{species.name || '(unnamed)'}</span>
+          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: DIET_COLORS[species.diet] }}></span>
+          <span className="text-xs text-zinc-500 font-mono">{species.population}</span>
+        </button>
+        <button type="button" onClick={onRemove} className="text-xs text-red-300 hover:bg-red-900/40 rounded px-2 py-0.5">
+          Remove
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-2">
+          <SpeciesDesigner species={species} others={others} onChange={onChange} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ScenarioEditor({ initial, onLoad, onClose, error }: ScenarioEditorProps) {
+  const [draft, setDraft] = useState<EcosystemState>(initial);
+  const [brush, setBrush] = useState<BiomeType>('grassland');
+  const [painting, setPainting] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const check = checkScenario(draft);
+  const names = draft.species.map(s => s.name);
+
+  const updateSpecies = (species: Species[]) => setDraft(prev => ({ ...prev, species }));
+
+  const handleAddSpecies = () => {
+    let n = draft.species.length + 1;
+    while (names.includes(`Species ${n}`)) n++;
+    updateSpecies([...draft.species, createSpecies(`Species ${n}`)]);
+  };
+
+  const handleSpeciesChange = (index: number, next: Species) => {
+    const previous = draft.species[index];
+    // Only cascade renames to links when the old name is unique
+    const renamed = next.name !== previous.name && names.filter(n => n === previous.name).length === 1
+      ? renameSpecies(draft.species, previous.name, next.name)
+      : draft.species;
+    updateSpecies(renamed.map((other, j) => (j === index ? next : other)));
+  };
+
+  const paint = (x: number, y: number) => {
+    setDraft(prev => ({
+      ...prev,
+      tiles: prev.tiles.map(t => (t.x === x && t.y === y ? { ...t, biome: brush } : t)),
+    }));
+  };
+
+  const handleGridSize = (size: number) => {
+    const gridSize = Math.max(2, Math.min(32, Math.round(size)));
+    setDraft(prev => ({ ...prev, grid_size: gridSize, tiles: resizeGrid(prev.tiles, gridSize) }));
+  };
+
+  const handleExport = () => {
+    const scenario = finalizeScenario(draft);
+    downloadSaveFile(createSaveFile(scenario, [], 'Custom scenario loaded.'), 'ecosim-scenario.json');
+  };
+
+  const handleLoad = async () => {
+    setIsLoading(true);
+    try {
+      await onLoad(finalizeScenario(draft));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const tileAt = new Map(draft.tiles.map(t => [`${t.x},${t.y}`, t]));
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-zinc-900 border border-zinc-700 rounded-lg w-full max-w-4xl max-h-full overflow-y-auto p-4 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+        onMouseUp={() => setPainting(false)}
+      >
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-medium text-zinc-400 uppercase tracking-wide">
+            Scenario Editor
+          </div>
+          <button onClick={onClose} className="text-zinc-400 hover:text-zinc-200 px-2" aria-label="Close scenario editor">
+            ✕
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {/* Species */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="text-xs text-zinc-500">Species ({draft.species.length})</div>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => updateSpecies(symmetrizeLinks(draft.species))}
+                  className="text-xs px-2 py-0.5 bg-zinc-800 hover:bg-zinc-700 border border-zinc-600 rounded"
+                  title="Make every prey/predator link two-sided"
+                >
+                  Fix links
+                </button>
+                <button
+                  onClick={handleAddSpecies}
+                  className="text-xs px-2 py-0.5 bg-zinc-800 hover:bg-zinc-700 border border-zinc-600 rounded"
+                >
+                  + Add
+                </button>
+              </div>
+            </div>
+            {draft.species.map((s, i) => (
+              <SpeciesCard
+                key={i}
+                species={s}
+                others={draft.species.filter(other => other.name !== s.name)}
+                onChange={(next) => handleSpeciesChange(i, next)}
+                onRemove={() => updateSpecies(removeSpecies(draft.species, s.name))}
+              />
+            ))}
+          </div>
+
+          {/* World */}
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2">
+              <label className="text-xs text-zinc-500">
+                Grid size
+                <input
+                  type="number"
+                  min={2}
+                  max={32}
+                  value={draft.grid_size}
+                  onChange={(e) => handleGridSize(Number(e.target.value))}
+                  className={inputClass}
+                />
+              </label>
+              <label className="text-xs text-zinc-500">
+                Season
+                <select
+                  value={draft.season}
+                  onChange={(e) => setDraft(prev => ({ ...prev, season: e.target.value }))}
+                  className={inputClass}
+                >
+                  {SEASONS.map((season) => (
+                    <option key={season} value={season}>{season}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs text-zinc-500">
+                Temp (°C)
+                <input
+                  type="number"
+                  step={0.5}
+                  value={draft.temperature}
+                  onChange={(e) => setDraft(prev => ({ ...prev, temperature: Number(e.target.value) }))}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+
+            {/* Biome brush */}
+            <div className="flex flex-wrap gap-1">
+              {BIOME_TYPES.map((biome) => (
+                <button
+                  key={biome}
+                  onClick={() => setBrush(biome)}
+                  className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded border capitalize ${
+                    brush === biome ? 'border-cyan-500 bg-zinc-700' : 'border-zinc-600 bg-zinc-800 hover:bg-zinc-700'
+                  }`}
+                >
+                  <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: BIOME_COLORS[biome] }}></span>
+                  {biome}
+                </button>
+              ))}
+            </div>
+
+            {/* Tile grid - click or drag to paint */}
+            <div
+              className="grid gap-px bg-zinc-800 rounded overflow-hidden select-none"
+              style={{ gridTemplateColumns: `repeat(${draft.grid_size}, minmax(0, 1fr))` }}
+              onMouseLeave={() => setPainting(false)}
+            >
+              {Array.from({ length: draft.grid_size * draft.grid_size }, (_, i) => {
+                const x = i % draft.grid_size;
+                const y = Math.floor(i / draft.grid_size);
+                const tile = tileAt.get(`${x},${y}`);
+                return (
+                  <div
+                    key={`${x},${y}`}
+                    title={`(${x}, ${y}) ${tile?.biome ?? ''}`}
+                    className="aspect-square cursor-crosshair hover:opacity-80"
+                    style={{ backgroundColor: tile ? BIOME_COLORS[tile.biome] : '#18181b' }}
+                    onMouseDown={() => {
+                      setPainting(true);
+                      paint(x, y);
+                    }}
+                    onMouseEnter={() => painting && paint(x, y)}
+                  />
+                );
+              })}
+            </div>
+
+            {/* Checks */}
+            <div className="space-y-1 max-h-40 overflow-y-auto">
+              {check.errors.length === 0 && check.warnings.length === 0 && (
+                <div className="text-xs text-green-400">✓ Scenario is consistent</div>
+              )}
+              {check.errors.map((issue, i) => (
+                <div key={`e${i}`} className="text-xs text-red-300">✕ {issue.path}: {issue.message}</div>
+              ))}
+              {check.warnings.map((issue, i) => (
+                <div key={`w${i}`} className="text-xs text-amber-400">⚠ {issue.path}: {issue.message}</div>
+              ))}
+            </div>
+
+            {error && (
+              <div className="text-sm text-red-300 bg-red-900/30 border border-red-700/50 rounded px-3 py-2">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleExport}
+                className="flex-1 bg-zinc-800 hover:bg-zinc-700 border border-zinc-600 text-sm py-2 rounded transition-colors"
+              >
+                Export file
+              </button>
+              <button
+                onClick={handleLoad}
+                disabled={check.errors.length > 0 || isLoading}
+                className="flex-1 bg-cyan-600 hover:bg-cyan-500 disabled:bg-zinc-700 disabled:cursor-not-allowed text-white text-sm py-2 rounded transition-colors"
+              >
+                {isLoading ? 'Loading...' : 'Load into simulation'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import type { InterventionRequest, Species } from '../types';
+import type { PopulationComparison, ScheduleTrigger, ScheduledIntervention } from '../scheduler';
+import { describeTrigger } from '../scheduler';
+import { describeIntervention } from '../interventions';
+import { SEASONS } from '../schema';
+
+interface SchedulePanelProps {
+  schedule: ScheduledIntervention[];
+  // Intervention waiting for a trigger, sent over from the control panel
+  draft: InterventionRequest | null;
+  turn: number;
+  species: Species[];
+  onAdd: (trigger: ScheduleTrigger, repeat: boolean) => void;
+  onCancelDraft: () => void;
+  onRemove: (id: string) => void;
+}
+
+const inputClass = 'w-full bg-zinc-800 border border-zinc-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-cyan-500';
+
+export default function SchedulePanel({
+  schedule,
+  draft,
+  turn,
+  species,
+  onAdd,
+  onCancelDraft,
+  onRemove,
+}: SchedulePanelProps) {
+  const [triggerType, setTriggerType] = useState<ScheduleTrigger['type']>('turn');
+  const [atTurn, setAtTurn] = useState(turn + 1);
+  const [season, setSeason] = useState('spring');
+  const [target, setTarget] = useState('');
+  const [comparison, setComparison] = useState<PopulationComparison>('>');
+  const [value, setValue] = useState(500);
+  const [repeat, setRepeat] = useState(false);
+
+  const targetSpecies = target || species[0]?.name || '';
+
+  const buildTrigger = (): ScheduleTrigger | null => {
+    switch (triggerType) {
+      case 'turn':
+        return atTurn > turn ? { type: 'turn', turn: atTurn } : null;
+      case 'season':
+        return { type: 'season', season };
+      case 'population':
+        return targetSpecies ? { type: 'population', species: targetSpecies, comparison, value } : null;
+    }
+  };
+
+  const trigger = buildTrigger();
+
+  const handleAdd = () => {
+    if (!trigger) return;
+    onAdd(trigger, repeat);
+    setRepeat(false);
+  };
+
+  return (
+    <div className="bg-zinc-900/80 backdrop-blur border border-zinc-700 rounded-lg p-4 space-y-3">
+      <div className="text-sm font-medium text-zinc-400 uppercase tracking-wide">
+        Scheduled
+      </div>
+
+      {/* New entry */}
+      {draft && (
+        <div className="bg-cyan-900/20 border border-cyan-700/50 rounded p-3 space-y-2">
+          <div className="text-xs text-cyan-200">{describeIntervention(draft)}</div>
+
+          <select
+            value={triggerType}
+            onChange={(e) => setTriggerType(e.target.value as ScheduleTrigger['type'])}
+            className={inputClass}
+          >
+            <option value="turn">At turn</option>
+            <option value="season">At the start of a season</option>
+            <option value="population">When a population crosses</option>
+          </select>
+
+          {triggerType === 'turn' && (
+            <input
+              type="number"
+              min={turn + 1}
+              value={atTurn}
+              onChange={(e) => setAtTurn(Math.round(Number(e.target.value)))}
+              className={inputClass}
+            />
+          )}
+
+          {triggerType === 'season' && (
+            <select value={season} onChange={(e) => setSeason(e.target.value)} className={`${inputClass} capitalize`}>
+              {SEASONS.map((s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+          )}
+
+          {triggerType === 'population' && (
+            <div className="flex gap-1">
+              <select value={targetSpecies} onChange={(e) => setTarget(e.target.value)} className={inputClass}>
+                {species.map((s) => (
+                  <option key={s.name} value={s.name}>{s.name}</option>
+                ))}
+              </select>
+              <select
+                value={comparison}
+                onChange={(e) => setComparison(e.target.value as PopulationComparison)}
+                className="bg-zinc-800 border border-zinc-600 rounded px-1 text-sm"
+              >
+                <option value=">">&gt;</option>
+                <option value="<">&lt;</option>
+              </select>
+              <input
+                type="number"
+                min={0}
+                value={value}
+                onChange={(e) => setValue(Number(e.target.value))}
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          {triggerType !== 'turn' && (
+            <label className="flex items-center gap-2 text-xs text-zinc-400">
+              <input type="checkbox" checked={repeat} onChange={(e) => setRepeat(e.target.checked)} />
+              Repeat every time
+            </label>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleAdd}
+              disabled={!trigger}
+              className="flex-1 bg-cyan-600 hover:bg-cyan-500 disabled:bg-zinc-700 disabled:cursor-not-allowed text-white text-xs py-1.5 rounded transition-colors"
+            >
+              Schedule
+            </button>
+            <button
+              onClick={onCancelDraft}
+              className="flex-1 bg-zinc-800 hover:bg-zinc-700 border border-zinc-600 text-xs py-1.5 rounded transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Upcoming */}
+      <div className="space-y-2">
+        {schedule.length === 0 && !draft && (
+          <div className="text-xs text-zinc-500 italic">
+            Nothing scheduled. Use "Schedule" in the intervention panel.
+          </div>
+        )}
+        {schedule.map((entry) => (
+          <div key={entry.id} className="flex items-start gap-2 text-xs">
+            <div className="flex-1">
+              <div className="text-cyan-400">{describeTrigger(entry.trigger, entry.repeat)}</div>
+              <div className="text-zinc-300">{describeIntervention(entry.intervention)}</div>
+            </div>
+            <button
+              onClick={() => onRemove(entry.id)}
+              className="text-zinc-500 hover:text-red-300 px-1"
+              aria-label="Remove scheduled intervention"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import type { BiomeType, DietType, Species } from '../types';
+import { BIOME_TYPES, DIET_TYPES, BOUNDS } from '../schema';
+import { suggestLinks } from '../scenario';
+
+interface SpeciesDesignerProps {
+  species: Species;
+  // Species it can be linked to (excluding itself)
+  others: Species[];
+  onChange: (species: Species) => void;
+  // Lowest population the form offers (1 when introducing a species)
+  minPopulation?: number;
+}
+
+const inputClass = 'w-full bg-zinc-800 border border-zinc-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-cyan-500';
+
+interface LinkPickerProps {
+  label: string;
+  selected: string[];
+  options: string[];
+  suggested: string[];
+  onChange: (names: string[]) => void;
+}
+
+function LinkPicker({ label, selected, options, suggested, onChange }: LinkPickerProps) {
+  const toggle = (name: string) => {
+    onChange(selected.includes(name) ? selected.filter(n => n !== name) : [...selected, name]);
+  };
+  const missing = suggested.filter(n => !selected.includes(n));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-xs text-zinc-500">{label}</span>
+        {missing.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange([...selected, ...missing])}
+            className="text-xs text-cyan-400 hover:text-cyan-300"
+            title={`Suggested: ${missing.join(', ')}`}
+          >
+            + Suggested ({missing.length})
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {options.length === 0 && <span className="text-xs text-zinc-600 italic">No other species</span>}
+        {options.map((name) => (
+          <button
+            key={name}
+            type="button"
+            onClick={() => toggle(name)}
+            className={`text-xs px-2 py-0.5 rounded-full border transition-colors ${
+              selected.includes(name)
+                ? 'bg-cyan-900/50 border-cyan-600 text-cyan-200'
+                : suggested.includes(name)
+                  ? 'bg-zinc-800 border-dashed border-cyan-700 text-zinc-300 hover:bg-zinc-700'
+                  : 'bg-zinc-800 border-zinc-600 text-zinc-400 hover:bg-zinc-700'
+            }`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Form for every trait of a Species, with food-web link suggestions
+export default function SpeciesDesigner({ species, others, onChange, minPopulation = 0 }: SpeciesDesignerProps) {
+  const set = <K extends keyof Species>(key: K, value: Species[K]) => onChange({ ...species, [key]: value });
+  const names = others.map(s => s.name);
+  const suggestions = suggestLinks(species, others);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-zinc-500">
+          Name
+          <input type="text" value={species.name} onChange={(e) => set('name', e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-zinc-500">
+          Population
+          <input
+            type="number"
+            min={minPopulation}
+            value={species.population}
+            onChange={(e) => set('population', Math.round(Number(e.target.value)))}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-zinc-500">
+          Diet
+          <select
+            value={species.diet}
+            onChange={(e) => {
+              const diet = e.target.value as DietType;
+              // Producers don't eat anything
+              onChange({ ...species, diet, prey: diet === 'producer' ? [] : species.prey });
+            }}
+            className={inputClass}
+          >
+            {DIET_TYPES.map((d) => (
+              <option key={d} value={d}>{d}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-zinc-500">
+          Preferred biome
+          <select
+            value={species.preferred_biome}
+            onChange={(e) => set('preferred_biome', e.target.value as BiomeType)}
+            className={inputClass}
+          >
+            {BIOME_TYPES.map((b) => (
+              <option key={b} value={b}>{b}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-zinc-500">
+          Reproduction rate
+          <input
+            type="number"
+            min={BOUNDS.reproduction_rate.min}
+            max={BOUNDS.reproduction_rate.max}
+            step={0.05}
+            value={species.reproduction_rate}
+            onChange={(e) => set('reproduction_rate', Number(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-zinc-500">
+          Territory size
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={species.territory_size}
+            onChange={(e) => set('territory_size', Number(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      {species.diet !== 'producer' && (
+        <LinkPicker
+          label="Eats (prey)"
+          selected={species.prey}
+          options={names}
+          suggested={suggestions.prey}
+          onChange={(prey) => set('prey', prey)}
+        />
+      )}
+      <LinkPicker
+        label="Eaten by (predators)"
+        selected={species.predators}
+        options={names}
+        suggested={suggestions.predators}
+        onChange={(predators) => set('predators', predators)}
+      />
+    </div>
+  );
+}
@@ -1,29 +1,73 @@
-import { useMemo, useState, useEffect } from 'react';
-import type { Species } from '../types';
+import { useMemo, useState, useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import type { Species, Tile } from '../types';
+import { DIET_COLORS } from '../types';
+import { createRng, hashString } from '../random';
+import { transitionProgress } from '../transitions';
+import { TERRAIN_POSITION } from '../tileGrid';
+import type { TerrainMaps } from '../proceduralTerrain';
 
 interface SpeciesMarkersProps {
   species: Species[];
+  tiles: Tile[];
+  gridSize: number;
   terrainSize?: number;
   terrainPosition?: [number, number, number];
+  // How long markers take to fade and move after a turn
+  transitionMs?: number;
+  // Generated terrain to sit on; without it, the Hawaii height map
+  maps?: TerrainMaps | null;
 }
 
-// Colors for different species types - highly distinct
-const DIET_COLORS: Record<string, string> = {
-  producer: '#00FF00',    // Bright lime green for plants
-  herbivore: '#00BFFF',   // Deep sky blue for herbivores
-  carnivore: '#FF0000',   // Pure red for carnivores/predators
-  omnivore: '#FF8C00',    // Dark orange for omnivores
-};
+interface Marker {
+  key: string;
+  position: [number, number, number];
+  color: string;
+  size: number;
+}
+
+// Sample elevation at UV coordinates (0-1 range)
+function sampleElevation(
+  data: ArrayLike<number>,
+  size: { width: number; height: number },
+  u: number,
+  v: number
+): number {
+  // Clamp UV to valid range
+  const clampedU = Math.max(0, Math.min(1, u));
+  const clampedV = Math.max(0, Math.min(1, v));
+
+  // Convert UV to pixel coordinates
+  const px = Math.floor(clampedU * (size.width - 1));
+  const py = Math.floor(clampedV * (size.height - 1));
+
+  // Get pixel index (4 channels: RGBA)
+  const idx = (py * size.width + px) * 4;
+
+  // Return red channel normalized to 0-1 (same as shader)
+  return data[idx] / 255;
+}
 
 export default function SpeciesMarkers({
   species,
+  tiles,
+  gridSize,
   terrainSize = 64,
-  terrainPosition = [0, -3, 0]
+  terrainPosition = TERRAIN_POSITION,
+  transitionMs = 0,
+  maps = null,
 }: SpeciesMarkersProps) {
-  const [elevationData, setElevationData] = useState<Uint8ClampedArray | null>(null);
-  const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
+  const [pngData, setPngData] = useState<Uint8ClampedArray | null>(null);
+  const [pngSize, setPngSize] = useState({ width: 0, height: 0 });
 
-  // Load elevation data from the same PNG the terrain uses
+  const elevationData = maps ? maps.height : pngData;
+  const imageSize = useMemo(
+    () => (maps ? { width: maps.size, height: maps.size } : pngSize),
+    [maps, pngSize]
+  );
+
+  // Height map for the Hawaii preset, from the same PNG the terrain uses
   useEffect(() => {
     const img = new Image();
     img.crossOrigin = 'anonymous';
@@ -35,95 +79,161 @@ export default function SpeciesMarkers({
       if (ctx) {
         ctx.drawImage(img, 0, 0);
         const data = ctx.getImageData(0, 0, img.width, img.height).data;
-        setElevationData(data);
-        setImageSize({ width: img.width, height: img.height });
+        setPngData(data);
+        setPngSize({ width: img.width, height: img.height });
       }
     };
     img.src = '/elevation.png';
   }, []);
 
-  // Sample elevation at UV coordinates (0-1 range)
-  const getElevationAt = (u: number, v: number): number => {
-    if (!elevationData || imageSize.width === 0) return 0;
-
-    // Clamp UV to valid range
-    const clampedU = Math.max(0, Math.min(1, u));
-    const clampedV = Math.max(0, Math.min(1, v));
-
-    // Convert UV to pixel coordinates
-    const px = Math.floor(clampedU * (imageSize.width - 1));
-    const py = Math.floor(clampedV * (imageSize.height - 1));
-
-    // Get pixel index (4 channels: RGBA)
-    const idx = (py * imageSize.width + px) * 4;
-
-    // Return red channel normalized to 0-1 (same as shader)
-    return elevationData[idx] / 255;
-  };
-
-  // Generate marker positions
+  // Generate marker positions from the tiles each species occupies
   const markers = useMemo(() => {
     if (!elevationData || imageSize.width === 0) return [];
 
-    const result: { position: [number, number, number]; color: string; size: number }[] = [];
+    const result: Marker[] = [];
     const clipThreshold = 0.15; // Same as terrain shader
 
+    // Stable tile order so dot allocation doesn't depend on backend ordering
+    const sortedTiles = [...tiles].sort((a, b) => a.y - b.y || a.x - b.x);
+
     // Filter to only species with population
     const activeSpecies = species.filter(s => s.population > 0);
 
     for (const s of activeSpecies) {
-      // Number of dots based on population (logarithmic scale)
+      let occupied = sortedTiles.filter(t => t.species_present.includes(s.name));
+      // Older states may not track species_present - fall back to habitat
+      if (occupied.length === 0) {
+        occupied = sortedTiles.filter(t => t.biome === s.preferred_biome);
+      }
+      if (occupied.length === 0) continue;
+
+      // Number of dots based on population (logarithmic scale), spread over
+      // the occupied tiles with at least one dot per tile
       const dotCount = Math.min(50, Math.max(3, Math.floor(Math.log10(s.population + 1) * 10)));
+      const dotsPerTile = Math.max(1, Math.round(dotCount / occupied.length));
       const color = DIET_COLORS[s.diet] || '#FFFFFF';
       const size = 0.15 + Math.log10(s.population + 1) * 0.05;
-
-      let attempts = 0;
-      let placed = 0;
-
-      while (placed < dotCount && attempts < dotCount * 20) {
-        attempts++;
-
-        // Random UV coordinates
-        const u = Math.random();
-        const v = Math.random();
-
-        // Check elevation - only place on land
-        const elevation = getElevationAt(u, v);
-        if (elevation < clipThreshold) continue;
-
-        // Convert UV to world coordinates
-        // UV (0,0) is top-left, (1,1) is bottom-right
-        // World X goes from -halfSize to +halfSize
-        // World Z goes from -halfSize to +halfSize (after rotation)
-        const worldX = (u - 0.5) * terrainSize + terrainPosition[0];
-        const worldZ = (v - 0.5) * terrainSize + terrainPosition[2];
-
-        // Y position: terrain base + elevation offset
-        // The terrain's displacement scale is 1.0
-        const worldY = terrainPosition[1] + elevation * 1.0 + 0.1; // Slightly above terrain
-
-        result.push({
-          position: [worldX, worldY, worldZ],
-          color,
-          size,
-        });
-        placed++;
+      // Dots are numbered per species, so when the population moves a dot
+      // glides to its new tile and only surplus dots fade out
+      let index = 0;
+
+      for (const tile of occupied) {
+        // Seeded per species+tile: the first N candidates are always the same,
+        // so dots only appear/disappear at the end of the sequence
+        const rng = createRng(hashString(`${s.name}:${tile.x}:${tile.y}`));
+
+        let attempts = 0;
+        let placed = 0;
+
+        while (placed < dotsPerTile && attempts < dotsPerTile * 20) {
+          attempts++;
+
+          // Random UV inside this tile's footprint
+          const u = (tile.x + rng()) / gridSize;
+          const v = (tile.y + rng()) / gridSize;
+
+          // Check elevation - only place on land
+          const elevation = sampleElevation(elevationData, imageSize, u, v);
+          if (elevation < clipThreshold) continue;
+
+          // Convert UV to world coordinates
+          // UV (0,0) is top-left, (1,1) is bottom-right
+          // World X goes from -halfSize to +halfSize
+          // World Z goes from -halfSize to +halfSize (after rotation)
+          const worldX = (u - 0.5) * terrainSize + terrainPosition[0];
+          const worldZ = (v - 0.5) * terrainSize + terrainPosition[2];
+
+          // Y position: terrain base + elevation offset
+          // The terrain's displacement scale is 1.0
+          const worldY = terrainPosition[1] + elevation * 1.0 + 0.1; // Slightly above terrain
+
+          result.push({
+            key: `${s.name}:${index++}`,
+            position: [worldX, worldY, worldZ],
+            color,
+            size,
+          });
+          placed++;
+        }
       }
     }
 
     return result;
-  }, [species, elevationData, imageSize, terrainSize, terrainPosition]);
+  }, [species, tiles, gridSize, elevationData, imageSize, terrainSize, terrainPosition]);
+
+  // Keep last turn's markers around so the ones that disappeared can fade out
+  const [shown, setShown] = useState(markers);
+  const [previous, setPrevious] = useState<Marker[]>([]);
+  if (markers !== shown) {
+    setPrevious(shown);
+    setShown(markers);
+  }
+
+  const exiting = useMemo(() => {
+    const keys = new Set(markers.map(m => m.key));
+    return previous.filter(m => !keys.has(m.key));
+  }, [markers, previous]);
+
+  // One keyed list, so a marker that leaves keeps its mesh and can fade out
+  const entries = useMemo(() => [
+    ...markers.map(marker => ({ marker, exiting: false })),
+    ...exiting.map(marker => ({ marker, exiting: true })),
+  ], [markers, exiting]);
 
   if (!elevationData) return null;
 
   return (
     <group>
-      {markers.map((marker, i) => (
-        <mesh key={i} position={marker.position}>
-          <sphereGeometry args={[marker.size, 8, 8]} />
-          <meshBasicMaterial color={marker.color} />
-        </mesh>
+      {entries.map((entry) => (
+        <AnimatedMarker key={entry.marker.key} marker={entry.marker} exiting={entry.exiting} transitionMs={transitionMs} />
       ))}
     </group>
   );
 }
+
+interface AnimatedMarkerProps {
+  marker: Marker;
+  // Fading out - it's gone from the current turn
+  exiting: boolean;
+  transitionMs: number;
+}
+
+// A unit sphere scaled to the marker's size, so size changes tween too
+function AnimatedMarker({ marker, exiting, transitionMs }: AnimatedMarkerProps) {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const materialRef = useRef<THREE.MeshBasicMaterial>(null);
+  // Where the current tween started, and what it's heading for
+  const tween = useRef<{ target: string; start: number; position: THREE.Vector3; scale: number; opacity: number } | null>(null);
+
+  useFrame((state) => {
+    const mesh = meshRef.current;
+    const material = materialRef.current;
+    if (!mesh || !material) return;
+
+    const now = state.clock.elapsedTime;
+    const target = `${marker.position.join(',')}|${marker.size}|${exiting}`;
+    if (tween.current?.target !== target) {
+      tween.current = {
+        target,
+        start: now,
+        // New markers appear in place
+        position: tween.current ? mesh.position.clone() : new THREE.Vector3(...marker.position),
+        scale: mesh.scale.x,
+        opacity: material.opacity,
+      };
+    }
+
+    const k = transitionProgress(tween.current.start, now, transitionMs);
+    mesh.position.lerpVectors(tween.current.position, new THREE.Vector3(...marker.position), k);
+    mesh.scale.setScalar(THREE.MathUtils.lerp(tween.current.scale, exiting ? 0 : marker.size, k));
+    material.opacity = THREE.MathUtils.lerp(tween.current.opacity, exiting ? 0 : 1, k);
+    mesh.visible = material.opacity > 0.01;
+  });
+
+  return (
+    <mesh ref={meshRef} scale={0}>
+      <sphereGeometry args={[1, 8, 8]} />
+      <meshBasicMaterial ref={materialRef} color={marker.color} transparent opacity={0} />
+    </mesh>
+  );
+}
@@ -1,18 +1,183 @@
-import { useLoader } from '@react-three/fiber';
-import { useMemo, useEffect } from 'react';
+import { useFrame, useLoader } from '@react-three/fiber';
+import type { ThreeEvent } from '@react-three/fiber';
+import { useMemo, useEffect, useRef } from 'react';
 import * as THREE from 'three';
-import type { Species } from '../types';
+import type { Species, Tile } from '../types';
+import { uvToTile, TERRAIN_SIZE } from '../tileGrid';
+import type { OverlayMode } from '../overlay';
+import { overlayPixels } from '../overlay';
+import { transitionProgress } from '../transitions';
+import type { TerrainMaps } from '../proceduralTerrain';
+import { flipRows } from '../proceduralTerrain';
 
 interface TerrainProps {
   position?: [number, number, number];
   species?: Species[];
   season?: string;
+  gridSize?: number;
+  onTileSelect?: (x: number, y: number) => void;
+  tiles?: Tile[];
+  overlay?: OverlayMode;
+  // 0-1, how strongly the overlay covers the terrain colors
+  overlayOpacity?: number;
+  // How long tint changes take to blend in after a turn
+  transitionMs?: number;
+  // Maps generated from the tiles; without them the Hawaii PNGs are used
+  maps?: TerrainMaps | null;
+  // Height (0-1) above which the ground shows snow; above 1 means none
+  snowLine?: number;
 }
 
-export default function Terrain({ position = [0, -3, 0], species = [], season = 'spring' }: TerrainProps) {
+interface TerrainTextures {
+  height: THREE.Texture;
+  normals: THREE.Texture;
+  colors: THREE.Texture;
+}
+
+// Height map value 1 raises the surface this far; below the clip threshold
+// the shader drops it as sea
+const DISPLACEMENT_SCALE = 1;
+const CLIP_THRESHOLD = 0.15;
+
+type HeightSampler = (u: number, v: number) => number;
+
+// Reads the height map on the CPU (three.js UVs, v = 0 at the bottom)
+function heightSampler(texture: THREE.Texture): HeightSampler | null {
+  let data: ArrayLike<number>;
+  let width: number;
+  let height: number;
+  let flipped: boolean;
+
+  if (texture instanceof THREE.DataTexture) {
+    // Generated maps: rows already run bottom-up
+    ({ data, width, height } = texture.image as { data: Uint8Array; width: number; height: number });
+    flipped = false;
+  } else {
+    const image = texture.image as HTMLImageElement | undefined;
+    const ctx = image ? document.createElement('canvas').getContext('2d') : null;
+    if (!image || !ctx) return null;
+    ctx.canvas.width = image.width;
+    ctx.canvas.height = image.height;
+    ctx.drawImage(image, 0, 0);
+    ({ data, width, height } = ctx.getImageData(0, 0, image.width, image.height));
+    flipped = true;
+  }
+
+  return (u, v) => {
+    const x = Math.round(Math.max(0, Math.min(1, u)) * (width - 1));
+    const y = Math.round(Math.max(0, Math.min(1, flipped ? 1 - v : v)) * (height - 1));
+    return data[(y * width + x) * 4] / 255;
+  };
+}
+
+// Where a ray first meets the displaced surface, as terrain UVs. Clicks
+// raycast the flat plane, which lies under the hills, so without this high
+// ground would pick the tile behind it.
+function surfaceUv(ray: THREE.Ray, position: [number, number, number], heightAt: HeightSampler): THREE.Vector2 | null {
+  if (ray.direction.y >= 0) return null;
+  const base = position[1];
+  const start = Math.max(0, (base + DISPLACEMENT_SCALE - ray.origin.y) / ray.direction.y);
+  const end = (base - ray.origin.y) / ray.direction.y;
+  const point = new THREE.Vector3();
+
+  const uvAt = (t: number) => {
+    ray.at(t, point);
+    return new THREE.Vector2(
+      (point.x - position[0]) / TERRAIN_SIZE + 0.5,
+      0.5 - (point.z - position[2]) / TERRAIN_SIZE
+    );
+  };
+  // Off the map and clipped sea don't stop the ray
+  const below = (t: number) => {
+    const uv = uvAt(t);
+    if (uv.x < 0 || uv.x > 1 || uv.y < 0 || uv.y > 1) return false;
+    const h = heightAt(uv.x, uv.y);
+    return h >= CLIP_THRESHOLD && point.y <= base + h * DISPLACEMENT_SCALE;
+  };
+
+  const steps = 128;
+  let previous = start;
+  for (let i = 1; i <= steps; i++) {
+    const t = start + ((end - start) * i) / steps;
+    if (!below(t)) {
+      previous = t;
+      continue;
+    }
+    // Narrow down the crossing between the last step above and this one
+    let low = previous;
+    let high = t;
+    for (let j = 0; j < 8; j++) {
+      const mid = (low + high) / 2;
+      if (below(mid)) high = mid;
+      else low = mid;
+    }
+    return uvAt(high);
+  }
+  return null;
+}
+
+export default function Terrain({ maps, ...props }: TerrainProps) {
+  return maps ? <ProceduralTerrain maps={maps} {...props} /> : <HawaiiTerrain {...props} />;
+}
+
+function HawaiiTerrain(props: Omit<TerrainProps, 'maps'>) {
   const height = useLoader(THREE.TextureLoader, '/elevation.png');
   const normals = useLoader(THREE.TextureLoader, '/normals.png');
   const colors = useLoader(THREE.TextureLoader, '/colors.png');
+  const textures = useMemo(() => ({ height, normals, colors }), [height, normals, colors]);
+
+  return <TerrainSurface textures={textures} {...props} />;
+}
+
+function dataTexture(data: Uint8Array, size: number): THREE.DataTexture {
+  const texture = new THREE.DataTexture(flipRows(data, size), size, size);
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+function ProceduralTerrain({ maps, ...props }: Omit<TerrainProps, 'maps'> & { maps: TerrainMaps }) {
+  const textures = useMemo(() => ({
+    height: dataTexture(maps.height, maps.size),
+    normals: dataTexture(maps.normals, maps.size),
+    colors: dataTexture(maps.colors, maps.size),
+  }), [maps]);
+
+  useEffect(() => () => {
+    textures.height.dispose();
+    textures.normals.dispose();
+    textures.colors.dispose();
+  }, [textures]);
+
+  return <TerrainSurface textures={textures} {...props} />;
+}
+
+function TerrainSurface({
+  position = [0, -3, 0],
+  species = [],
+  season = 'spring',
+  gridSize = 8,
+  onTileSelect,
+  tiles = [],
+  overlay = 'none',
+  overlayOpacity = 0.6,
+  transitionMs = 0,
+  snowLine = 1.2,
+  textures,
+}: Omit<TerrainProps, 'maps'> & { textures: TerrainTextures }) {
+  const meshRef = useRef<THREE.Mesh>(null);
+  // Uniform values when the current tint transition started
+  const tween = useRef<{
+    target: object;
+    snowLine: number;
+    start: number;
+    health: number;
+    tint: THREE.Vector3;
+    snow: number;
+  } | null>(null);
+  const { height, normals, colors } = textures;
+  const heightAt = useMemo(() => heightSampler(height), [height]);
 
   // Calculate ecosystem health metrics for visual tinting
   const ecosystemState = useMemo(() => {
@@ -47,17 +212,32 @@ export default function Terrain({ position = [0, -3, 0], species = [], season =
     return { vegetationHealth, seasonTint };
   }, [species, season]);
 
-  // Custom shader material
+  // One texel per tile, sampled without filtering so tile edges stay sharp
+  const overlayMap = useMemo(() => {
+    const texture = new THREE.DataTexture(overlayPixels(overlay, tiles, species, gridSize), gridSize, gridSize);
+    texture.magFilter = THREE.NearestFilter;
+    texture.minFilter = THREE.NearestFilter;
+    texture.needsUpdate = true;
+    return texture;
+  }, [overlay, tiles, species, gridSize]);
+
+  useEffect(() => () => overlayMap.dispose(), [overlayMap]);
+
+  // Custom shader material. The ecosystem-driven uniforms start neutral and
+  // are driven every frame below.
   const material = useMemo(() => {
     return new THREE.ShaderMaterial({
       uniforms: {
         colorMap: { value: colors },
         displacementMap: { value: height },
         normalMap: { value: normals },
-        displacementScale: { value: 1.0 },
-        clipThreshold: { value: 0.15 },
-        vegetationHealth: { value: ecosystemState.vegetationHealth },
-        seasonTint: { value: new THREE.Vector3(...ecosystemState.seasonTint) },
+        displacementScale: { value: DISPLACEMENT_SCALE },
+        clipThreshold: { value: CLIP_THRESHOLD },
+        vegetationHealth: { value: 1.0 },
+        seasonTint: { value: new THREE.Vector3(1, 1, 1) },
+        overlayMap: { value: null },
+        overlayOpacity: { value: 0 },
+        snowLine: { value: 1.2 },
       },
       vertexShader: `
         uniform sampler2D displacementMap;
@@ -86,6 +266,9 @@ export default function Terrain({ position = [0, -3, 0], species = [], season =
         uniform float clipThreshold;
         uniform float vegetationHealth;
         uniform vec3 seasonTint;
+        uniform sampler2D overlayMap;
+        uniform float overlayOpacity;
+        uniform float snowLine;
 
         varying vec2 vUv;
         varying float vDisplacement;
@@ -112,6 +295,14 @@ export default function Terrain({ position = [0, -3, 0], species = [], season =
           // Apply seasonal tint
           color *= seasonTint;
 
+          // Snow cover on everything above the snow line
+          float snow = smoothstep(snowLine - 0.03, snowLine + 0.03, vDisplacement);
+          color = mix(color, vec3(0.95, 0.97, 1.0), snow);
+
+          // Tile data overlay (alpha is 0 where there's no tile)
+          vec4 overlay = texture2D(overlayMap, vUv);
+          color = mix(color, overlay.rgb, overlay.a * overlayOpacity);
+
           // Simple shading based on elevation
           float elevationShade = 0.7 + vDisplacement * 0.5;
 
@@ -126,21 +317,54 @@ export default function Terrain({ position = [0, -3, 0], species = [], season =
       `,
       side: THREE.DoubleSide,
     });
-  }, [colors, height, normals, ecosystemState]);
+  }, [colors, height, normals]);
+
+  useEffect(() => () => material.dispose(), [material]);
+
+  // Blend health, season tint and snow line toward the latest state; the
+  // overlay follows its props directly
+  useFrame((state) => {
+    const uniforms = (meshRef.current?.material as THREE.ShaderMaterial | undefined)?.uniforms;
+    if (!uniforms) return;
+
+    const now = state.clock.elapsedTime;
+    if (tween.current?.target !== ecosystemState || tween.current.snowLine !== snowLine) {
+      tween.current = {
+        target: ecosystemState,
+        snowLine,
+        start: now,
+        health: uniforms.vegetationHealth.value,
+        tint: uniforms.seasonTint.value.clone(),
+        snow: uniforms.snowLine.value,
+      };
+    }
+
+    const k = transitionProgress(tween.current.start, now, transitionMs);
+    uniforms.vegetationHealth.value = THREE.MathUtils.lerp(tween.current.health, ecosystemState.vegetationHealth, k);
+    uniforms.seasonTint.value.lerpVectors(tween.current.tint, new THREE.Vector3(...ecosystemState.seasonTint), k);
+    uniforms.snowLine.value = THREE.MathUtils.lerp(tween.current.snow, snowLine, k);
+    uniforms.overlayMap.value = overlayMap;
+    uniforms.overlayOpacity.value = overlayOpacity;
+  });
 
-  // Update uniforms when ecosystem state changes
-  useEffect(() => {
-    material.uniforms.vegetationHealth.value = ecosystemState.vegetationHealth;
-    material.uniforms.seasonTint.value = new THREE.Vector3(...ecosystemState.seasonTint);
-  }, [ecosystemState, material]);
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    // Ignore clicks that were really camera drags
+    if (!onTileSelect || !e.uv || e.delta > 4) return;
+    e.stopPropagation();
+    const uv = (heightAt && surfaceUv(e.ray, position, heightAt)) ?? e.uv;
+    const [x, y] = uvToTile(uv.x, uv.y, gridSize);
+    onTileSelect(x, y);
+  };
 
   return (
     <mesh
+      ref={meshRef}
       rotation={[-Math.PI / 2, 0, 0]}
       position={position}
       material={material}
+      onClick={handleClick}
     >
-      <planeGeometry args={[64, 64, 1024, 1024]} />
+      <planeGeometry args={[TERRAIN_SIZE, TERRAIN_SIZE, 1024, 1024]} />
     </mesh>
   );
 }
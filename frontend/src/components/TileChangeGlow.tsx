@@ -0,0 +1,73 @@
+import { useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import type { Tile } from '../types';
+import { tileCenter, TERRAIN_SIZE } from '../tileGrid';
+import { changedTiles, transitionProgress } from '../transitions';
+
+interface TileChangeGlowProps {
+  tiles: Tile[];
+  gridSize: number;
+  transitionMs: number;
+  terrainSize?: number;
+  terrainPosition?: [number, number, number];
+}
+
+const GLOW_HEIGHT = 1.4;
+const GLOW_OPACITY = 0.3;
+
+// Briefly lights up the tiles that changed on the last turn
+export default function TileChangeGlow({
+  tiles,
+  gridSize,
+  transitionMs,
+  terrainSize = TERRAIN_SIZE,
+  terrainPosition = [0, -3, 0],
+}: TileChangeGlowProps) {
+  const groupRef = useRef<THREE.Group>(null);
+  const glow = useRef<{ tiles: Tile[]; start: number } | null>(null);
+
+  // Compare against the tiles from the previous render
+  const [shown, setShown] = useState(tiles);
+  const [previous, setPrevious] = useState(tiles);
+  if (tiles !== shown) {
+    setPrevious(shown);
+    setShown(tiles);
+  }
+
+  const changed = useMemo(() => changedTiles(previous, tiles), [previous, tiles]);
+  const tileSize = terrainSize / gridSize;
+
+  // Fade out over twice the transition, so the glow outlasts the tween
+  useFrame((state) => {
+    const group = groupRef.current;
+    if (!group) return;
+    if (glow.current?.tiles !== tiles) glow.current = { tiles, start: state.clock.elapsedTime };
+
+    const k = transitionProgress(glow.current.start, state.clock.elapsedTime, transitionMs * 2);
+    group.visible = k < 1;
+    for (const child of group.children) {
+      ((child as THREE.Mesh).material as THREE.MeshBasicMaterial).opacity = GLOW_OPACITY * (1 - k);
+    }
+  });
+
+  if (transitionMs <= 0) return null;
+
+  return (
+    <group ref={groupRef} visible={false}>
+      {changed.map((tile) => {
+        const [worldX, worldZ] = tileCenter(tile.x, tile.y, gridSize, terrainSize, terrainPosition);
+        return (
+          <mesh
+            key={`${tile.x},${tile.y}`}
+            position={[worldX, terrainPosition[1] + GLOW_HEIGHT / 2, worldZ]}
+            raycast={() => null}
+          >
+            <boxGeometry args={[tileSize, GLOW_HEIGHT, tileSize]} />
+            <meshBasicMaterial color="#fff6c2" transparent opacity={0} depthWrite={false} />
+          </mesh>
+        );
+      })}
+    </group>
+  );
+}
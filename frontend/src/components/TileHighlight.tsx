@@ -0,0 +1,30 @@
+import { Edges } from '@react-three/drei';
+import { tileCenter, TERRAIN_SIZE } from '../tileGrid';
+
+interface TileHighlightProps {
+  tile: [number, number];
+  gridSize: number;
+  terrainSize?: number;
+  terrainPosition?: [number, number, number];
+}
+
+// Height of the highlight column - tall enough to wrap the displaced terrain
+const HIGHLIGHT_HEIGHT = 1.4;
+
+export default function TileHighlight({
+  tile,
+  gridSize,
+  terrainSize = TERRAIN_SIZE,
+  terrainPosition = [0, -3, 0],
+}: TileHighlightProps) {
+  const [worldX, worldZ] = tileCenter(tile[0], tile[1], gridSize, terrainSize, terrainPosition);
+  const tileSize = terrainSize / gridSize;
+
+  return (
+    <mesh position={[worldX, terrainPosition[1] + HIGHLIGHT_HEIGHT / 2, worldZ]} raycast={() => null}>
+      <boxGeometry args={[tileSize, HIGHLIGHT_HEIGHT, tileSize]} />
+      <meshBasicMaterial color="#00ffff" transparent opacity={0.12} depthWrite={false} />
+      <Edges color="#00ffff" threshold={15} />
+    </mesh>
+  );
+}
@@ -0,0 +1,139 @@
+import type { Species, Tile } from '../types';
+import { BIOME_COLORS, DIET_COLORS, SPECIES_ICONS } from '../types';
+
+interface TileInspectorProps {
+  tile: Tile | null;
+  previousTile: Tile | null;
+  species: Species[];
+}
+
+interface StatRowProps {
+  label: string;
+  value: number;
+  previous?: number;
+}
+
+function formatDelta(delta: number): string {
+  const rounded = Math.round(delta * 10) / 10;
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+}
+
+function StatRow({ label, value, previous }: StatRowProps) {
+  const delta = previous === undefined ? 0 : value - previous;
+
+  return (
+    <div className="bg-zinc-800 rounded p-2">
+      <div className="text-xs text-zinc-500">{label}</div>
+      <div className="flex items-baseline gap-2">
+        <span className="text-sm font-semibold font-mono">{Math.round(value)}</span>
+        {Math.abs(delta) >= 0.1 && (
+          <span className={`text-xs font-mono ${delta > 0 ? 'text-green-400' : 'text-red-400'}`}>
+            {formatDelta(delta)}
+          </span>
+        )}
+      </div>
+      {/* 0-100 gauge */}
+      <div className="h-1 mt-1 bg-zinc-700 rounded overflow-hidden">
+        <div
+          className="h-full bg-cyan-500"
+          style={{ width: `${Math.max(0, Math.min(100, value))}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default function TileInspector({ tile, previousTile, species }: TileInspectorProps) {
+  if (!tile) {
+    return (
+      <div className="bg-zinc-900/80 backdrop-blur border border-zinc-700 rounded-lg p-4">
+        <div className="text-sm font-medium text-zinc-400 uppercase tracking-wide mb-2">
+          Tile Inspector
+        </div>
+        <div className="text-sm text-zinc-500 italic">
+          Select a tile on the island to inspect its habitat.
+        </div>
+      </div>
+    );
+  }
+
+  const speciesByName = new Map(species.map(s => [s.name, s]));
+  const previousPresent = new Set(previousTile?.species_present ?? []);
+  const currentPresent = new Set(tile.species_present);
+  const departed = previousTile
+    ? previousTile.species_present.filter(name => !currentPresent.has(name))
+    : [];
+  const biomeChanged = previousTile !== null && previousTile.biome !== tile.biome;
+
+  return (
+    <div className="bg-zinc-900/80 backdrop-blur border border-zinc-700 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-zinc-400 uppercase tracking-wide">
+          Tile Inspector
+        </div>
+        <div className="text-xs font-mono text-zinc-500">
+          ({tile.x}, {tile.y})
+        </div>
+      </div>
+
+      {/* Biome */}
+      <div className="flex items-center gap-2">
+        <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: BIOME_COLORS[tile.biome] }}></span>
+        <span className="text-sm font-semibold capitalize">{tile.biome}</span>
+        {biomeChanged && (
+          <span className="text-xs text-amber-400">
+            (was {previousTile.biome})
+          </span>
+        )}
+      </div>
+
+      {/* Habitat values */}
+      <div className="grid grid-cols-3 gap-2">
+        <StatRow label="Elevation" value={tile.elevation} previous={previousTile?.elevation} />
+        <StatRow label="Water" value={tile.water_level} previous={previousTile?.water_level} />
+        <StatRow label="Vegetation" value={tile.vegetation} previous={previousTile?.vegetation} />
+      </div>
+
+      {/* Species on this tile */}
+      <div>
+        <div className="text-xs text-zinc-500 mb-1">Species present</div>
+        {tile.species_present.length === 0 && departed.length === 0 ? (
+          <div className="text-sm text-zinc-500 italic">None</div>
+        ) : (
+          <div className="space-y-1">
+            {tile.species_present.map((name) => {
+              const s = speciesByName.get(name);
+              const icon = SPECIES_ICONS[name] || SPECIES_ICONS.default;
+              const isNew = previousTile !== null && !previousPresent.has(name);
+
+              return (
+                <div key={name} className="flex items-center justify-between py-1 px-2 rounded hover:bg-zinc-800">
+                  <div className="flex items-center gap-2">
+                    <span>{icon}</span>
+                    <span className="text-sm">{name}</span>
+                    {isNew && <span className="text-xs text-green-400">new</span>}
+                  </div>
+                  {s ? (
+                    <div className="flex items-center gap-1.5 text-xs text-zinc-400">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: DIET_COLORS[s.diet] }}></span>
+                      <span className="capitalize">{s.diet}</span>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-amber-400">unknown</span>
+                  )}
+                </div>
+              );
+            })}
+            {departed.map((name) => (
+              <div key={name} className="flex items-center gap-2 py-1 px-2 opacity-50">
+                <span>{SPECIES_ICONS[name] || SPECIES_ICONS.default}</span>
+                <span className="text-sm line-through">{name}</span>
+                <span className="text-xs text-red-400">left</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import type { Timeline } from '../timeline';
+import { currentNode, isRewound } from '../timeline';
+
+interface TimelinePanelProps {
+  timeline: Timeline;
+  forkName: string;
+  onForkNameChange: (name: string) => void;
+  onRewind: (nodeId: string) => void;
+  isLoading: boolean;
+}
+
+export default function TimelinePanel({
+  timeline,
+  forkName,
+  onForkNameChange,
+  onRewind,
+  isLoading,
+}: TimelinePanelProps) {
+  const current = currentNode(timeline);
+  const rewound = isRewound(timeline);
+  const nodes = Object.values(timeline.nodes);
+
+  return (
+    <div className="bg-zinc-900/80 backdrop-blur border border-zinc-700 rounded-lg p-4 space-y-3">
+      <div className="text-sm font-medium text-zinc-400 uppercase tracking-wide">
+        Timeline
+      </div>
+
+      {/* Fork notice when rewound */}
+      {rewound && (
+        <div className="bg-amber-900/20 border border-amber-700/50 rounded p-3 space-y-2">
+          <div className="text-xs text-amber-400">
+            Rewound to turn {current.state.turn} on "{current.branch}". Advancing will fork a new branch.
+          </div>
+          <input
+            type="text"
+            value={forkName}
+            onChange={(e) => onForkNameChange(e.target.value)}
+            placeholder="Branch name (optional)"
+            className="w-full bg-zinc-800 border border-zinc-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-cyan-500"
+          />
+        </div>
+      )}
+
+      {/* Branches */}
+      <div className="space-y-2">
+        {timeline.branches.map((branch) => {
+          const branchNodes = nodes
+            .filter(n => n.branch === branch.name)
+            .sort((a, b) => a.state.turn - b.state.turn);
+          const forkedFrom = branch.forkedFromId ? timeline.nodes[branch.forkedFromId] : null;
+
+          return (
+            <div key={branch.name}>
+              <div className="flex items-center justify-between text-xs mb-1">
+                <span className={branch.name === current.branch ? 'text-cyan-400 font-medium' : 'text-zinc-400'}>
+                  {branch.name}
+                </span>
+                {forkedFrom && (
+                  <span className="text-zinc-500">
+                    from {forkedFrom.branch} T{forkedFrom.state.turn}
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {branchNodes.map((node) => {
+                  const isCurrent = node.id === current.id;
+                  return (
+                    <button
+                      key={node.id}
+                      onClick={() => onRewind(node.id)}
+                      disabled={isLoading || isCurrent}
+                      title={`Turn ${node.state.turn} · ${node.state.season}`}
+                      className={`text-xs font-mono px-1.5 py-0.5 rounded border transition-colors ${
+                        isCurrent
+                          ? 'bg-cyan-600 border-cyan-500 text-white'
+                          : 'bg-zinc-800 border-zinc-600 hover:bg-zinc-700 disabled:opacity-50'
+                      }`}
+                    >
+                      {node.state.turn}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import type { Weather } from '../weather';
+import { createRng, hashString } from '../random';
+import { TERRAIN_SIZE } from '../tileGrid';
+
+interface WeatherEffectsProps {
+  weather: Weather;
+  terrainSize?: number;
+  terrainPosition?: [number, number, number];
+}
+
+const MAX_RAIN = 1500;
+const MAX_SNOW = 1200;
+const CEILING = 18;
+const RAIN_SPEED = 20;
+const RAIN_LENGTH = 0.7;
+const SNOW_SPEED = 1.4;
+
+interface PrecipitationProps {
+  amount: number;
+  area: number;
+  floor: number;
+}
+
+// Eases a displayed amount toward its target, so weather builds up and
+// clears over a few seconds rather than popping
+function easeLevel(level: { current: number }, target: number, delta: number): number {
+  level.current += (target - level.current) * (1 - Math.exp(-delta * 1.5));
+  return level.current < 0.01 && target === 0 ? 0 : level.current;
+}
+
+// Seeded start positions spread over the island and the column above it
+function scatter(seed: string, count: number, area: number, floor: number): Float32Array {
+  const rng = createRng(hashString(seed));
+  const points = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    points[i * 3] = (rng() - 0.5) * area;
+    points[i * 3 + 1] = floor + rng() * (CEILING - floor);
+    points[i * 3 + 2] = (rng() - 0.5) * area;
+  }
+  return points;
+}
+
+// Falling streaks, one line segment per drop
+function Rain({ amount, area, floor }: PrecipitationProps) {
+  const linesRef = useRef<THREE.LineSegments>(null);
+  const level = useRef(0);
+
+  const geometry = useMemo(() => {
+    const drops = scatter('rain', MAX_RAIN, area, floor);
+    const positions = new Float32Array(MAX_RAIN * 6);
+    for (let i = 0; i < MAX_RAIN; i++) {
+      positions.set([drops[i * 3], drops[i * 3 + 1], drops[i * 3 + 2]], i * 6);
+      positions.set([drops[i * 3], drops[i * 3 + 1] + RAIN_LENGTH, drops[i * 3 + 2]], i * 6 + 3);
+    }
+    const buffer = new THREE.BufferGeometry();
+    buffer.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    buffer.setDrawRange(0, 0);
+    return buffer;
+  }, [area, floor]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useFrame((_, delta) => {
+    const lines = linesRef.current;
+    if (!lines) return;
+    const count = Math.round(easeLevel(level, amount, delta) * MAX_RAIN);
+    lines.visible = count > 0;
+    lines.geometry.setDrawRange(0, count * 2);
+    if (count === 0) return;
+
+    const attribute = lines.geometry.getAttribute('position') as THREE.BufferAttribute;
+    const positions = attribute.array as Float32Array;
+    const fall = RAIN_SPEED * Math.min(delta, 0.1);
+    for (let i = 0; i < count; i++) {
+      let y = positions[i * 6 + 1] - fall;
+      if (y < floor) y += CEILING - floor;
+      positions[i * 6 + 1] = y;
+      positions[i * 6 + 4] = y + RAIN_LENGTH;
+    }
+    attribute.needsUpdate = true;
+  });
+
+  return (
+    <lineSegments ref={linesRef} geometry={geometry} visible={false} raycast={() => null}>
+      <lineBasicMaterial color="#a9c7e8" transparent opacity={0.45} depthWrite={false} />
+    </lineSegments>
+  );
+}
+
+// Slow flakes that drift sideways as they fall
+function Snow({ amount, area, floor }: PrecipitationProps) {
+  const pointsRef = useRef<THREE.Points>(null);
+  const level = useRef(0);
+
+  const geometry = useMemo(() => {
+    const buffer = new THREE.BufferGeometry();
+    buffer.setAttribute('position', new THREE.BufferAttribute(scatter('snow', MAX_SNOW, area, floor), 3));
+    buffer.setDrawRange(0, 0);
+    return buffer;
+  }, [area, floor]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useFrame((state, delta) => {
+    const points = pointsRef.current;
+    if (!points) return;
+    const count = Math.round(easeLevel(level, amount, delta) * MAX_SNOW);
+    points.visible = count > 0;
+    points.geometry.setDrawRange(0, count);
+    if (count === 0) return;
+
+    const attribute = points.geometry.getAttribute('position') as THREE.BufferAttribute;
+    const positions = attribute.array as Float32Array;
+    const step = Math.min(delta, 0.1);
+    const time = state.clock.elapsedTime;
+    for (let i = 0; i < count; i++) {
+      let y = positions[i * 3 + 1] - SNOW_SPEED * step;
+      if (y < floor) y += CEILING - floor;
+      positions[i * 3 + 1] = y;
+      positions[i * 3] += Math.sin(time * 0.8 + i) * 0.4 * step;
+      positions[i * 3 + 2] += Math.cos(time * 0.6 + i * 1.3) * 0.4 * step;
+    }
+    attribute.needsUpdate = true;
+  });
+
+  return (
+    <points ref={pointsRef} geometry={geometry} visible={false} raycast={() => null}>
+      <pointsMaterial color="#ffffff" size={0.18} transparent opacity={0.85} depthWrite={false} />
+    </points>
+  );
+}
+
+// Faint rippling bands of light just above the ground on hot turns
+function HeatShimmer({ amount, area, floor }: PrecipitationProps) {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const level = useRef(0);
+
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    uniforms: {
+      time: { value: 0 },
+      strength: { value: 0 },
+    },
+    vertexShader: `
+      varying vec2 vUv;
+
+      void main() {
+        vUv = uv;
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+      }
+    `,
+    fragmentShader: `
+      uniform float time;
+      uniform float strength;
+
+      varying vec2 vUv;
+
+      void main() {
+        // Wavy bands drifting across the island, fading out toward the sea
+        float wave = sin(vUv.y * 90.0 + sin(vUv.x * 40.0 + time * 2.0) * 2.0 - time * 3.0);
+        float edge = smoothstep(0.5, 0.3, distance(vUv, vec2(0.5)));
+        float alpha = (wave * 0.5 + 0.5) * edge * strength * 0.12;
+        gl_FragColor = vec4(1.0, 0.92, 0.75, alpha);
+      }
+    `,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+    side: THREE.DoubleSide,
+  }), []);
+
+  useEffect(() => () => material.dispose(), [material]);
+
+  useFrame((state, delta) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const strength = easeLevel(level, amount, delta);
+    mesh.visible = strength > 0;
+    const uniforms = (mesh.material as THREE.ShaderMaterial).uniforms;
+    uniforms.time.value = state.clock.elapsedTime;
+    uniforms.strength.value = strength;
+  });
+
+  return (
+    <mesh
+      ref={meshRef}
+      rotation={[-Math.PI / 2, 0, 0]}
+      position={[0, floor + 1.2, 0]}
+      material={material}
+      visible={false}
+      raycast={() => null}
+    >
+      <planeGeometry args={[area, area]} />
+    </mesh>
+  );
+}
+
+// Rain, snowfall and heat shimmer over the island. Haze is drawn by the
+// viewport as a screen overlay, and snow cover by the terrain shader.
+export default function WeatherEffects({
+  weather,
+  terrainSize = TERRAIN_SIZE,
+  terrainPosition = [0, -3, 0],
+}: WeatherEffectsProps) {
+  const floor = terrainPosition[1];
+
+  return (
+    <group position={[terrainPosition[0], 0, terrainPosition[2]]}>
+      <Rain amount={weather.rain} area={terrainSize} floor={floor} />
+      <Snow amount={weather.snow} area={terrainSize} floor={floor} />
+      <HeatShimmer amount={weather.shimmer} area={terrainSize} floor={floor} />
+    </group>
+  );
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { EcosystemState, InterventionRequest } from './types';
+import { advanceTurn, createInitialEcosystem } from './engine';
+
+// Initial ecosystem cut down to the named species
+function withSpecies(names: string[]): EcosystemState {
+  const state = createInitialEcosystem(8);
+  return { ...state, species: state.species.filter(s => names.includes(s.name)) };
+}
+
+const population = (state: EcosystemState, name: string) =>
+  state.species.find(s => s.name === name)?.population ?? 0;
+
+describe('advanceTurn', () => {
+  it('gives the same result for the same state and interventions', () => {
+    const state = createInitialEcosystem(8);
+    const interventions: InterventionRequest[] = [
+      { kind: 'natural_disaster', disaster: 'Flood', intensity: 'medium', duration: 2, area: { x: 3, y: 3, radius: 1 } },
+    ];
+    const snapshot = structuredClone(state);
+
+    const first = advanceTurn(state, interventions);
+    const second = advanceTurn(structuredClone(state), structuredClone(interventions));
+
+    expect(second).toEqual(first);
+    expect(state).toEqual(snapshot);
+  });
+
+  it('varies the noise from turn to turn', () => {
+    const state = createInitialEcosystem(8);
+    const later = { ...state, turn: state.turn + 4 };
+    expect(advanceTurn(later).new_state.species).not.toEqual(advanceTurn(state).new_state.species);
+  });
+
+  it('grows producers with nothing eating them', () => {
+    const state = withSpecies(['Oak Tree']);
+    expect(population(advanceTurn(state).new_state, 'Oak Tree')).toBeGreaterThan(population(state, 'Oak Tree'));
+  });
+
+  it('holds prey down when predators are present', () => {
+    const alone = advanceTurn(withSpecies(['Grass', 'Rabbit'])).new_state;
+    const hunted = advanceTurn(withSpecies(['Grass', 'Rabbit', 'Fox', 'Hawk'])).new_state;
+    expect(population(hunted, 'Rabbit')).toBeLessThan(population(alone, 'Rabbit'));
+  });
+
+  it('starves consumers with no prey left', () => {
+    const state = withSpecies(['Fox']);
+    expect(population(advanceTurn(state).new_state, 'Fox')).toBeLessThan(population(state, 'Fox'));
+  });
+
+  it('keeps local fire damage after tiles are updated', () => {
+    const state = createInitialEcosystem(8);
+    const result = advanceTurn(state, [
+      { kind: 'natural_disaster', disaster: 'Wildfire', intensity: 'high', duration: 1, area: { x: 0, y: 0, radius: 0 } },
+    ]);
+    const tile = (x: number, y: number) => result.new_state.tiles.find(t => t.x === x && t.y === y)!;
+    expect(tile(0, 0).vegetation).toBeLessThan(tile(0, 5).vegetation);
+  });
+});
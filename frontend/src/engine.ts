@@ -0,0 +1,490 @@
+import type {
+  BiomeType,
+  EcosystemState,
+  Intensity,
+  InterventionRequest,
+  SimulationEvent,
+  SimulationResult,
+  Species,
+  Tile,
+  TileArea,
+} from './types';
+import { createRng, hashString } from './random';
+import { describeIntervention } from './interventions';
+import { SEASONS, normalizeSeason } from './schema';
+
+// Deterministic, rule-based stand-in for the Gemini backend. Same contract as
+// POST /ecosystem/advance - the same state and interventions always produce
+// the same result - so the app works offline.
+
+const SEASON_TEMPERATURE: Record<string, number> = { spring: 15, summer: 24, fall: 12, winter: 2 };
+
+// Multiplier on reproduction
+const SEASON_GROWTH: Record<string, number> = { spring: 1.3, summer: 1, fall: 0.7, winter: 0.35 };
+
+// Water level each biome drifts back towards
+const BIOME_WATER: Record<BiomeType, number> = {
+  grassland: 40,
+  forest: 60,
+  desert: 10,
+  tundra: 30,
+  wetland: 90,
+  mountain: 20,
+};
+
+// Territory units a tile provides
+const TILE_AREA = 50;
+// Predator capacity per unit of prey territory
+const FOOD_CONVERSION = 3;
+// Predation pressure per predator:prey (territory-weighted) ratio. Grazers
+// crop plants rather than kill them, so producers feel less of it.
+const ATTACK_RATE = 0.3;
+const GRAZING_RATE = 0.1;
+// Most of a population that predators / starvation can take in one turn
+const MAX_PREDATION = 0.6;
+const MAX_DECLINE = 0.6;
+
+// Intervention strength at each intensity, as a fraction of the full effect
+const INTENSITY: Record<Intensity, number> = { low: 0.15, medium: 0.3, high: 0.5 };
+
+const EVENTS_LOG_LIMIT = 20;
+
+function nextSeason(season: string): string {
+  return SEASONS[(SEASONS.indexOf(normalizeSeason(season)) + 1) % SEASONS.length];
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Port of create_initial_ecosystem in backend/simulation.py
+export function createInitialEcosystem(gridSize = 8): EcosystemState {
+  const tiles: Tile[] = [];
+  for (let x = 0; x < gridSize; x++) {
+    for (let y = 0; y < gridSize; y++) {
+      let tile: Omit<Tile, 'x' | 'y' | 'species_present'>;
+      if (x < Math.floor(gridSize / 3)) {
+        tile = { biome: 'forest', elevation: 30 + y * 5, water_level: 60, vegetation: 80 };
+      } else if (x < Math.floor((2 * gridSize) / 3)) {
+        tile = { biome: 'grassland', elevation: 20, water_level: 40, vegetation: 50 };
+      } else if (y < Math.floor(gridSize / 2)) {
+        tile = { biome: 'wetland', elevation: 10, water_level: 90, vegetation: 40 };
+      } else {
+        tile = { biome: 'mountain', elevation: 70, water_level: 20, vegetation: 20 };
+      }
+      tiles.push({ x, y, ...tile, species_present: [] });
+    }
+  }
+
+  const species: Species[] = [
+    { name: 'Grass', population: 10000, diet: 'producer', prey: [], predators: ['Rabbit', 'Deer'], preferred_biome: 'grassland', reproduction_rate: 1.5, territory_size: 0.01 },
+    { name: 'Oak Tree', population: 500, diet: 'producer', prey: [], predators: ['Deer'], preferred_biome: 'forest', reproduction_rate: 0.1, territory_size: 1 },
+    { name: 'Rabbit', population: 200, diet: 'herbivore', prey: ['Grass'], predators: ['Fox', 'Hawk'], preferred_biome: 'grassland', reproduction_rate: 0.8, territory_size: 0.5 },
+    { name: 'Deer', population: 50, diet: 'herbivore', prey: ['Grass', 'Oak Tree'], predators: ['Wolf'], preferred_biome: 'forest', reproduction_rate: 0.3, territory_size: 5 },
+    { name: 'Fox', population: 30, diet: 'carnivore', prey: ['Rabbit'], predators: ['Wolf'], preferred_biome: 'grassland', reproduction_rate: 0.25, territory_size: 8 },
+    { name: 'Wolf', population: 15, diet: 'carnivore', prey: ['Deer', 'Fox', 'Rabbit'], predators: [], preferred_biome: 'forest', reproduction_rate: 0.15, territory_size: 20 },
+    { name: 'Hawk', population: 20, diet: 'carnivore', prey: ['Rabbit'], predators: [], preferred_biome: 'mountain', reproduction_rate: 0.2, territory_size: 15 },
+    { name: 'Frog', population: 100, diet: 'omnivore', prey: ['Grass'], predators: ['Hawk'], preferred_biome: 'wetland', reproduction_rate: 0.6, territory_size: 0.2 },
+  ];
+
+  return {
+    turn: 0,
+    grid_size: gridSize,
+    tiles: tiles.map(t => ({
+      ...t,
+      species_present: species.filter(s => s.preferred_biome === t.biome).map(s => s.name),
+    })),
+    species,
+    season: 'spring',
+    temperature: 15,
+    events_log: ['Ecosystem initialized. The world awakens.'],
+  };
+}
+
+// --- Population dynamics ---
+
+// Tiles a species lives on; anywhere at a quarter of the capacity if its
+// preferred biome is missing
+function habitat(species: Species, tiles: Tile[]): { tiles: Tile[]; factor: number } {
+  const own = tiles.filter(t => t.biome === species.preferred_biome);
+  return own.length > 0 ? { tiles: own, factor: 1 } : { tiles, factor: 0.25 };
+}
+
+function territory(species: Species): number {
+  return Math.max(species.territory_size, 0.01);
+}
+
+// Room to live: plants need vegetation and water, animals mostly water
+function spaceCapacity(species: Species, tiles: Tile[]): number {
+  const home = habitat(species, tiles);
+  const quality = home.tiles.reduce((sum, t) => sum + (species.diet === 'producer'
+    ? (t.vegetation + t.water_level) / 200
+    : 0.5 + t.water_level / 200), 0);
+  return (quality * TILE_AREA * home.factor) / territory(species);
+}
+
+// Consumers that can be fed by their living prey, using territory size as a
+// stand-in for body size
+function foodCapacity(species: Species, byName: Map<string, Species>): number {
+  return species.prey.reduce((sum, name) => {
+    const prey = byName.get(name);
+    if (!prey) return sum;
+    return sum + (FOOD_CONVERSION * prey.population * territory(prey)) / territory(species);
+  }, 0);
+}
+
+// Everything that eats each species, from both sides of the links
+function eatersOf(species: Species[]): Map<string, Set<string>> {
+  const eaters = new Map(species.map(s => [s.name, new Set(s.predators)]));
+  for (const s of species) {
+    for (const prey of s.prey) eaters.get(prey)?.add(s.name);
+  }
+  return eaters;
+}
+
+// One discrete Lotka-Volterra step: logistic growth towards the carrying
+// capacity, minus ratio-dependent predation, with a little seeded noise
+function stepPopulations(
+  species: Species[],
+  tiles: Tile[],
+  season: string,
+  temperature: number,
+  seed: string
+): Species[] {
+  const byName = new Map(species.map(s => [s.name, s]));
+  const eaters = eatersOf(species);
+  const climate = (SEASON_GROWTH[season] ?? 1) * (temperature < 0 || temperature > 32 ? 0.7 : 1);
+
+  return species.map(sp => {
+    const n = sp.population;
+    if (n <= 0) return { ...sp, population: 0 };
+
+    const space = spaceCapacity(sp, tiles);
+    const capacity = sp.diet === 'producer' ? space : Math.min(space, foodCapacity(sp, byName));
+    const growth = capacity > 0 ? sp.reproduction_rate * climate * n * (1 - n / capacity) : -n;
+
+    let pressure = 0;
+    for (const name of eaters.get(sp.name) ?? []) {
+      const predator = byName.get(name);
+      if (!predator || predator.population <= 0) continue;
+      const ratio = (predator.population * territory(predator)) / (n * territory(sp));
+      // Predators split their effort across everything they eat
+      const effort = 1 / Math.max(1, predator.prey.filter(p => (byName.get(p)?.population ?? 0) > 0).length);
+      const rate = sp.diet === 'producer' ? GRAZING_RATE : ATTACK_RATE;
+      pressure += (rate * effort * ratio) / (1 + ratio);
+    }
+
+    const rng = createRng(hashString(`${seed}:${sp.name}`));
+    const noise = 1 + (rng() - 0.5) * 0.1;
+    const next = Math.round((n + Math.max(growth, -MAX_DECLINE * n) - Math.min(MAX_PREDATION, pressure) * n) * noise);
+    return { ...sp, population: next < 2 ? 0 : next };
+  });
+}
+
+// Port of update_tiles_from_state in backend/simulation.py, plus water
+// drifting back towards each biome's norm. `damage` holds this turn's
+// intervention changes to each tile's vegetation, applied on top so local
+// fires and floods still show.
+function updateTiles(tiles: Tile[], species: Species[], season: string, damage: Map<string, number>): Tile[] {
+  const totalPlants = species.filter(s => s.diet === 'producer').reduce((sum, s) => sum + s.population, 0);
+  const maxPlants = 15000;
+  const seasonWater: Record<string, number> = { spring: 5, summer: -5, fall: 0, winter: 2 };
+
+  return tiles.map(tile => {
+    const biomeSpecies = species.filter(s => s.preferred_biome === tile.biome);
+    let vegetation = tile.vegetation;
+
+    const producers = biomeSpecies.filter(s => s.diet === 'producer');
+    if (producers.length > 0 && totalPlants > 0) {
+      const producerPop = producers.reduce((sum, s) => sum + s.population, 0);
+      vegetation = Math.min(100, Math.max(5, Math.floor((producerPop / maxPlants) * 100 * 1.5)));
+    }
+
+    if (season === 'winter') vegetation = Math.max(10, Math.floor(vegetation * 0.6));
+    else if (season === 'spring') vegetation = Math.min(100, Math.floor(vegetation * 1.2));
+    else if (season === 'summer') vegetation = Math.min(100, Math.floor(vegetation * 1.1));
+
+    const herbivorePop = biomeSpecies.filter(s => s.diet === 'herbivore').reduce((sum, s) => sum + s.population, 0);
+    vegetation = Math.max(5, vegetation - Math.min(20, Math.floor(herbivorePop / 50)));
+    vegetation = Math.round(clamp(vegetation + (damage.get(tileKey(tile)) ?? 0), 0, 100));
+
+    const water = tile.water_level + (BIOME_WATER[tile.biome] - tile.water_level) * 0.1 + (seasonWater[season] ?? 0);
+
+    return {
+      ...tile,
+      vegetation,
+      water_level: Math.round(clamp(water, 0, 100)),
+      species_present: biomeSpecies.filter(s => s.population > 0).map(s => s.name),
+    };
+  });
+}
+
+// --- Interventions ---
+
+interface World {
+  species: Species[];
+  tiles: Tile[];
+  temperatureShift: number;
+  events: SimulationEvent[];
+  // Vegetation change per tile from this turn's interventions
+  damage: Map<string, number>;
+}
+
+const tileKey = (tile: Tile) => `${tile.x},${tile.y}`;
+
+// Per-intervention effects at full strength, matched by keyword
+interface Effect {
+  vegetation?: number;
+  water?: number;
+  temperature?: number;
+  // Share of affected individuals killed
+  mortality?: number;
+  targets?: (species: Species, world: World) => boolean;
+}
+
+const consumers = (s: Species) => s.diet !== 'producer';
+
+const EFFECTS: [string, Effect][] = [
+  ['wildfire', { vegetation: -100, mortality: 1 }],
+  ['flood', { water: 60, mortality: 0.6 }],
+  ['drought', { water: -80, vegetation: -40, temperature: 3 }],
+  ['disease', { mortality: 1.2, targets: consumers }],
+  ['harsh winter', { temperature: -15, vegetation: -30, mortality: 0.6 }],
+  ['temperature rise', { temperature: 12 }],
+  ['temperature drop', { temperature: -12 }],
+  ['rainfall', { water: 50, vegetation: 20 }],
+  ['dry season', { water: -50, vegetation: -25 }],
+  ['meteor', { vegetation: -100, mortality: 1.6 }],
+  ['volcan', { vegetation: -100, mortality: 1.6, temperature: 4 }],
+  ['algae', { water: -20, mortality: 1.8, targets: s => s.preferred_biome === 'wetland' }],
+  ['swarm', { vegetation: -80, mortality: 1.8, targets: s => s.diet === 'producer' }],
+  ['plague', { mortality: 1.6, targets: consumers }],
+  ['earthquake', { vegetation: -60, water: 40, mortality: 1.4 }],
+  ['fallout', { vegetation: -60, mortality: 1.5 }],
+  ['top predators', {
+    mortality: 2,
+    targets: (s, world) => consumers(s) && !eatersOf(world.species).get(s.name)?.size,
+  }],
+  ['zombie', { mortality: 1.6, targets: consumers }],
+  ['combustion', { vegetation: -90, mortality: 1.2 }],
+];
+
+function findEffect(name: string): Effect {
+  const lower = name.toLowerCase();
+  return EFFECTS.find(([keyword]) => lower.includes(keyword))?.[1] ?? { mortality: 1 };
+}
+
+function inArea(tile: Tile, area: TileArea | undefined): boolean {
+  return !area || (Math.abs(tile.x - area.x) <= area.radius && Math.abs(tile.y - area.y) <= area.radius);
+}
+
+// Fraction of a species' range inside the area
+function areaShare(species: Species, tiles: Tile[], area: TileArea | undefined): number {
+  if (!area) return 1;
+  const range = tiles.filter(t => t.species_present.includes(species.name) || t.biome === species.preferred_biome);
+  if (range.length === 0) return 0;
+  return range.filter(t => inArea(t, area)).length / range.length;
+}
+
+// The engine has no memory between turns, so lasting effects land as one
+// proportionally stronger hit
+function strength(intensity: Intensity, duration: number): number {
+  return Math.min(0.9, INTENSITY[intensity] * (1 + 0.5 * (duration - 1)));
+}
+
+function applyEffect(world: World, intervention: InterventionRequest, effect: Effect, power: number, area?: TileArea) {
+  const affectedTiles = area ? world.tiles.filter(t => inArea(t, area)) : [];
+
+  world.tiles = world.tiles.map(t => {
+    if (!inArea(t, area)) return t;
+    const vegetation = Math.round(clamp(t.vegetation + (effect.vegetation ?? 0) * power, 0, 100));
+    if (vegetation !== t.vegetation) {
+      world.damage.set(tileKey(t), (world.damage.get(tileKey(t)) ?? 0) + vegetation - t.vegetation);
+    }
+    return { ...t, vegetation, water_level: Math.round(clamp(t.water_level + (effect.water ?? 0) * power, 0, 100)) };
+  });
+  world.temperatureShift += (effect.temperature ?? 0) * power;
+
+  const losses: { name: string; killed: number }[] = [];
+  world.species = world.species.map(s => {
+    if (!effect.mortality || s.population <= 0 || (effect.targets && !effect.targets(s, world))) return s;
+    const killed = Math.round(s.population * Math.min(0.95, effect.mortality * power * areaShare(s, world.tiles, area)));
+    if (killed <= 0) return s;
+    losses.push({ name: s.name, killed });
+    return { ...s, population: s.population - killed };
+  });
+
+  const summary = losses.map(l => `${l.name} -${l.killed}`).join(', ');
+  world.events.push({
+    description: `${describeIntervention(intervention)}.${summary ? ` Losses: ${summary}.` : ''}`,
+    affected_species: losses.map(l => l.name),
+    affected_tiles: affectedTiles.map(t => ({ x: t.x, y: t.y })),
+    severity: intervention.kind === 'calamity' || power >= INTENSITY.high ? 'high' : power >= INTENSITY.medium ? 'medium' : 'low',
+  });
+}
+
+function applyIntervention(world: World, intervention: InterventionRequest) {
+  switch (intervention.kind) {
+    case 'introduce_species': {
+      const definition = { ...intervention.species, population: intervention.count };
+      const existing = world.species.find(s => s.name.toLowerCase() === definition.name.toLowerCase());
+      // Same rules as apply_species_definition in the backend: designed
+      // traits win and links become two-sided
+      world.species = world.species
+        .filter(s => s !== existing)
+        .map(s => ({
+          ...s,
+          predators: definition.prey.includes(s.name) && !s.predators.includes(definition.name)
+            ? [...s.predators, definition.name]
+            : s.predators,
+          prey: definition.predators.includes(s.name) && !s.prey.includes(definition.name)
+            ? [...s.prey, definition.name]
+            : s.prey,
+        }));
+      world.species.push({ ...definition, population: definition.population + (existing?.population ?? 0) });
+      world.events.push({
+        description: `${intervention.count} ${definition.name} were released into the ecosystem.`,
+        affected_species: [definition.name],
+        affected_tiles: world.tiles.filter(t => intervention.area && inArea(t, intervention.area)).map(t => ({ x: t.x, y: t.y })),
+        severity: 'low',
+      });
+      break;
+    }
+    case 'remove_species': {
+      const target = world.species.find(s => s.name === intervention.target);
+      if (!target) break;
+      const share = areaShare(target, world.tiles, intervention.area);
+      const removed = Math.min(target.population, intervention.count ?? Math.round(target.population * share));
+      world.species = world.species.map(s => (s === target ? { ...s, population: s.population - removed } : s));
+      world.events.push({
+        description: `${removed} ${target.name} were removed from the ecosystem.`,
+        affected_species: [target.name],
+        affected_tiles: world.tiles.filter(t => intervention.area && inArea(t, intervention.area)).map(t => ({ x: t.x, y: t.y })),
+        severity: removed >= target.population ? 'high' : 'medium',
+      });
+      break;
+    }
+    case 'natural_disaster':
+      applyEffect(world, intervention, findEffect(intervention.disaster), strength(intervention.intensity, intervention.duration), intervention.area);
+      break;
+    case 'change_climate':
+      applyEffect(world, intervention, findEffect(intervention.event), strength(intervention.intensity, intervention.duration));
+      break;
+    case 'calamity':
+      applyEffect(world, intervention, findEffect(intervention.calamity), strength(intervention.intensity, intervention.duration), intervention.area);
+      break;
+  }
+}
+
+// --- Turn ---
+
+// Rule-based events and warnings from population changes
+function describeChanges(before: Species[], after: Species[]): { events: SimulationEvent[]; warnings: string[] } {
+  const events: SimulationEvent[] = [];
+  const warnings: string[] = [];
+  const previous = new Map(before.map(s => [s.name, s.population]));
+  const living = new Set(after.filter(s => s.population > 0).map(s => s.name));
+
+  for (const s of after) {
+    const was = previous.get(s.name) ?? 0;
+    const now = s.population;
+
+    if (was > 0 && now === 0) {
+      events.push({ description: `${s.name} has gone extinct.`, affected_species: [s.name], affected_tiles: [], severity: 'high' });
+      continue;
+    }
+    if (was > 0 && now < was * 0.6) {
+      events.push({
+        description: `${s.name} population crashed from ${was} to ${now}.`,
+        affected_species: [s.name],
+        affected_tiles: [],
+        severity: now < was * 0.3 ? 'high' : 'medium',
+      });
+    } else if (was >= 10 && now > was * 1.5) {
+      events.push({ description: `${s.name} population boomed from ${was} to ${now}.`, affected_species: [s.name], affected_tiles: [], severity: 'low' });
+    }
+
+    if (now > 0 && (now < 10 || now < was * 0.5)) {
+      warnings.push(`${s.name} is at risk of extinction (${now} left).`);
+    }
+    if (now > 0 && s.diet !== 'producer' && !s.prey.some(p => living.has(p))) {
+      warnings.push(`${s.name} has nothing left to eat.`);
+    }
+  }
+
+  const plants = (list: Species[]) => list.filter(s => s.diet === 'producer').reduce((sum, s) => sum + s.population, 0);
+  if (plants(before) > 0 && plants(after) < plants(before) * 0.5) {
+    warnings.push('Plant life is collapsing - herbivores will starve next.');
+  }
+
+  return { events, warnings };
+}
+
+function narrate(before: EcosystemState, after: EcosystemState, interventions: InterventionRequest[], events: SimulationEvent[]): string {
+  const parts = [`${capitalize(after.season)} settles over the island at ${after.temperature.toFixed(1)}°C.`];
+  if (interventions.length > 0) {
+    parts.push(`The ecosystem absorbs ${interventions.length === 1 ? 'your intervention' : `${interventions.length} interventions`}.`);
+  }
+
+  const changes = after.species
+    .map(s => {
+      const was = before.species.find(b => b.name === s.name)?.population ?? 0;
+      return { name: s.name, change: was > 0 ? (s.population - was) / was : 0 };
+    })
+    .sort((a, b) => b.change - a.change);
+  const best = changes[0];
+  const worst = changes[changes.length - 1];
+  if (best && best.change > 0.05) parts.push(`${best.name} thrive (+${Math.round(best.change * 100)}%).`);
+  if (worst && worst.change < -0.05) parts.push(`${worst.name} struggle (${Math.round(worst.change * 100)}%).`);
+
+  const severe = events.filter(e => e.severity === 'high').length;
+  if (severe > 0) parts.push(`${severe} major event${severe === 1 ? '' : 's'} shook the food web.`);
+  return parts.join(' ');
+}
+
+export function advanceTurn(state: EcosystemState, interventions: InterventionRequest[] = []): SimulationResult {
+  const season = normalizeSeason(state.season);
+  const upcoming = nextSeason(season);
+  const seed = `${state.turn}:${season}`;
+
+  const world: World = {
+    species: state.species.map(s => ({ ...s, prey: [...s.prey], predators: [...s.predators] })),
+    tiles: state.tiles,
+    temperatureShift: 0,
+    events: [],
+    damage: new Map(),
+  };
+  for (const intervention of interventions) applyIntervention(world, intervention);
+
+  // Half of this season's temperature anomaly carries over
+  const anomaly = state.temperature - (SEASON_TEMPERATURE[season] ?? 15);
+  const jitter = (createRng(hashString(`${seed}:temperature`))() - 0.5) * 2;
+  const temperature = Math.round(((SEASON_TEMPERATURE[upcoming] ?? 15) + anomaly * 0.5 + world.temperatureShift + jitter) * 10) / 10;
+
+  const species = stepPopulations(world.species, world.tiles, upcoming, temperature, seed);
+  const tiles = updateTiles(world.tiles, species, upcoming, world.damage);
+  const changes = describeChanges(state.species, species);
+
+  const events: SimulationEvent[] = [
+    { description: `${capitalize(upcoming)} arrives.`, affected_species: [], affected_tiles: [], severity: 'low' },
+    ...world.events,
+    ...changes.events,
+  ];
+
+  const newState: EcosystemState = {
+    ...state,
+    turn: state.turn + 1,
+    species,
+    tiles,
+    season: upcoming,
+    temperature,
+    events_log: [...state.events_log, ...events.map(e => e.description)].slice(-EVENTS_LOG_LIMIT),
+  };
+
+  return {
+    new_state: newState,
+    events,
+    narration: narrate(state, newState, interventions, events),
+    warnings: changes.warnings,
+  };
+}
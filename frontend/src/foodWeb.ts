@@ -0,0 +1,98 @@
+import type { DietType, Species } from './types';
+
+export interface FoodWebNode {
+  name: string;
+  // null for dangling references (no matching species)
+  diet: DietType | null;
+  population: number;
+  extinct: boolean;
+  dangling: boolean;
+  // 0 = eats nothing, otherwise 1 + highest level of anything it eats
+  level: number;
+}
+
+export interface FoodWebEdge {
+  prey: string;
+  predator: string;
+  // One end of the edge has no matching species
+  dangling: boolean;
+}
+
+export interface FoodWeb {
+  nodes: FoodWebNode[];
+  edges: FoodWebEdge[];
+}
+
+// Build the predation graph from both `prey` and `predators` lists, so a
+// link declared on only one side still shows up
+export function buildFoodWeb(species: Species[]): FoodWeb {
+  const known = new Map(species.map(s => [s.name, s]));
+  const edgeKeys = new Set<string>();
+  const edges: FoodWebEdge[] = [];
+
+  const addEdge = (prey: string, predator: string) => {
+    const key = `${prey}->${predator}`;
+    if (edgeKeys.has(key) || prey === predator) return;
+    edgeKeys.add(key);
+    edges.push({ prey, predator, dangling: !known.has(prey) || !known.has(predator) });
+  };
+
+  for (const s of species) {
+    for (const prey of s.prey) addEdge(prey, s.name);
+    for (const predator of s.predators) addEdge(s.name, predator);
+  }
+
+  const names = new Set([...known.keys(), ...edges.flatMap(e => [e.prey, e.predator])]);
+
+  // Trophic level by longest prey chain, guarding against cycles
+  const levels = new Map<string, number>();
+  const visiting = new Set<string>();
+  const levelOf = (name: string): number => {
+    const cached = levels.get(name);
+    if (cached !== undefined) return cached;
+    if (visiting.has(name)) return 0;
+    visiting.add(name);
+    const preyLevels = edges.filter(e => e.predator === name).map(e => levelOf(e.prey));
+    visiting.delete(name);
+    const level = preyLevels.length > 0 ? 1 + Math.max(...preyLevels) : 0;
+    levels.set(name, level);
+    return level;
+  };
+
+  const nodes = [...names].map(name => {
+    const s = known.get(name);
+    return {
+      name,
+      diet: s?.diet ?? null,
+      population: s?.population ?? 0,
+      extinct: s !== undefined && s.population === 0,
+      dangling: s === undefined,
+      level: levelOf(name),
+    };
+  });
+
+  return { nodes, edges };
+}
+
+// Everything upstream (what it eats, transitively) and downstream (what eats
+// it, transitively) of a species - the set a population change ripples through
+export function trophicCascade(web: FoodWeb, name: string): Set<string> {
+  const result = new Set<string>([name]);
+
+  const walk = (start: string, next: (current: string) => string[]) => {
+    const stack = [start];
+    const seen = new Set<string>([start]);
+    for (let current = stack.pop(); current !== undefined; current = stack.pop()) {
+      for (const neighbour of next(current)) {
+        if (seen.has(neighbour)) continue;
+        seen.add(neighbour);
+        result.add(neighbour);
+        stack.push(neighbour);
+      }
+    }
+  };
+
+  walk(name, current => web.edges.filter(e => e.predator === current).map(e => e.prey));
+  walk(name, current => web.edges.filter(e => e.prey === current).map(e => e.predator));
+  return result;
+}
@@ -0,0 +1,54 @@
+import type { DietType, EcosystemState } from './types';
+
+// One point on the population timeline
+export interface PopulationSnapshot {
+  turn: number;
+  season: string;
+  populations: Record<string, number>;
+}
+
+export interface PopulationSeries {
+  name: string;
+  diet: DietType | null;
+  values: number[];
+}
+
+export function toSnapshots(history: EcosystemState[]): PopulationSnapshot[] {
+  return history.map(state => ({
+    turn: state.turn,
+    season: state.season,
+    populations: Object.fromEntries(state.species.map(s => [s.name, s.population])),
+  }));
+}
+
+// One series per species ever seen. Species missing from a turn (not yet
+// introduced, or removed) count as 0 for that turn.
+export function speciesSeries(history: EcosystemState[]): PopulationSeries[] {
+  const diets = new Map<string, DietType>();
+  for (const state of history) {
+    for (const s of state.species) diets.set(s.name, s.diet);
+  }
+
+  const snapshots = toSnapshots(history);
+  return [...diets.entries()].map(([name, diet]) => ({
+    name,
+    diet,
+    values: snapshots.map(snap => snap.populations[name] ?? 0),
+  }));
+}
+
+// One series per diet type, summing the species in each group
+export function dietSeries(history: EcosystemState[]): PopulationSeries[] {
+  const diets: DietType[] = ['producer', 'herbivore', 'omnivore', 'carnivore'];
+  return diets
+    .map(diet => ({
+      name: diet,
+      diet,
+      values: history.map(state =>
+        state.species
+          .filter(s => s.diet === diet)
+          .reduce((sum, s) => sum + s.population, 0)
+      ),
+    }))
+    .filter(series => series.values.some(v => v > 0));
+}
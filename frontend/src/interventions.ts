@@ -0,0 +1,50 @@
+import type { InterventionKind, InterventionRequest, TileArea } from './types';
+import type { TimelineNode } from './timeline';
+
+export const INTERVENTION_LABELS: Record<InterventionKind, string> = {
+  introduce_species: 'Introduce Species',
+  remove_species: 'Remove Species',
+  natural_disaster: 'Disaster',
+  change_climate: 'Climate Event',
+  calamity: 'Calamity',
+};
+
+function describeArea(area: TileArea | undefined): string {
+  if (!area) return '';
+  if (area.radius === 0) return ` at tile (${area.x}, ${area.y})`;
+  return ` within ${area.radius} tile${area.radius === 1 ? '' : 's'} of (${area.x}, ${area.y})`;
+}
+
+function describeDuration(turns: number): string {
+  return turns > 1 ? `, lasting ${turns} turns` : '';
+}
+
+// Prose for the AI prompt and the intervention log. Keep in sync with
+// describe_intervention in backend/simulation.py.
+export function describeIntervention(intervention: InterventionRequest): string {
+  switch (intervention.kind) {
+    case 'introduce_species':
+      return `Introduce ${intervention.count} ${intervention.species.name} (${intervention.species.diet}) to the ecosystem${describeArea(intervention.area)}`;
+    case 'remove_species':
+      return `Remove ${intervention.count ?? 'all'} ${intervention.target} from the ecosystem${describeArea(intervention.area)}`;
+    case 'natural_disaster':
+      return `Trigger a ${intervention.intensity}-intensity ${intervention.disaster}${describeArea(intervention.area)}${describeDuration(intervention.duration)}`;
+    case 'change_climate':
+      return `${intervention.event} (${intervention.intensity} intensity) affects the ecosystem${describeDuration(intervention.duration)}`;
+    case 'calamity':
+      return `CALAMITY: ${intervention.calamity} devastates the ecosystem${describeArea(intervention.area)}${describeDuration(intervention.duration)}! This is a catastrophic event with severe consequences for all species.`;
+  }
+}
+
+export interface InterventionLogEntry {
+  turn: number;
+  branch: string;
+  interventions: InterventionRequest[];
+}
+
+// Interventions applied along a timeline path, one entry per turn that had any
+export function interventionLog(path: TimelineNode[]): InterventionLogEntry[] {
+  return path
+    .filter(node => node.interventions.length > 0)
+    .map(node => ({ turn: node.state.turn, branch: node.branch, interventions: node.interventions }));
+}
@@ -0,0 +1,64 @@
+import type { EcosystemState } from './types';
+import type { SimulationProvider } from './api';
+import { advanceTurn as advanceLocally, createInitialEcosystem } from './engine';
+
+// In-browser stand-in for the FastAPI server, backed by the local engine.
+// Each provider keeps its own ecosystem, so tests can create throwaway ones.
+export function createOfflineProvider(): SimulationProvider {
+  let current: EcosystemState | null = null;
+
+  const requireEcosystem = (): EcosystemState => {
+    if (!current) throw new Error('No ecosystem exists. Create one first.');
+    return current;
+  };
+
+  return {
+    id: 'offline',
+    label: 'Offline engine',
+
+    async createEcosystem(gridSize = 8, signal) {
+      signal?.throwIfAborted();
+      current = createInitialEcosystem(gridSize);
+      return current;
+    },
+
+    async getEcosystem() {
+      return requireEcosystem();
+    },
+
+    async advanceTurn(interventions = [], signal) {
+      signal?.throwIfAborted();
+      const result = advanceLocally(requireEcosystem(), interventions);
+      current = result.new_state;
+      return result;
+    },
+
+    // No language model offline - answer with the numbers, plus the food-web
+    // links of any species the question mentions
+    async chat(message) {
+      const state = requireEcosystem();
+      const lower = message.toLowerCase();
+      const mentioned = state.species.filter(s => lower.includes(s.name.toLowerCase()));
+
+      const lines = [
+        `Running offline, so I can only report what the rules engine tracks. Turn ${state.turn}, ${state.season}, ${state.temperature.toFixed(1)}°C.`,
+      ];
+      for (const s of mentioned) {
+        lines.push(
+          `${s.name}: ${s.population} (${s.diet}, prefers ${s.preferred_biome}). ` +
+          `Eats ${s.prey.join(', ') || 'nothing'}; eaten by ${s.predators.join(', ') || 'nothing'}.`
+        );
+      }
+      if (mentioned.length === 0) {
+        const ranked = [...state.species].sort((a, b) => b.population - a.population);
+        lines.push(`Populations: ${ranked.map(s => `${s.name} ${s.population}`).join(', ')}.`);
+      }
+      return lines.join('\n');
+    },
+
+    async loadEcosystem(state) {
+      current = state;
+      return current;
+    },
+  };
+}
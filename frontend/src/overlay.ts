@@ -0,0 +1,119 @@
+import type { BiomeType, Species, Tile } from './types';
+import { BIOME_COLORS } from './types';
+import { BOUNDS } from './schema';
+
+// Per-tile data drawn over the terrain (see Terrain's overlay texture)
+export type OverlayMode = 'none' | 'biome' | 'vegetation' | 'water' | 'density';
+
+export const OVERLAY_LABELS: Record<OverlayMode, string> = {
+  none: 'Off',
+  biome: 'Biome',
+  vegetation: 'Vegetation',
+  water: 'Water',
+  density: 'Species density',
+};
+
+export interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+// Heatmap ends, low to high
+const GRADIENTS: Record<'vegetation' | 'water' | 'density', [string, string]> = {
+  vegetation: ['#7a5230', '#2fbf4a'],
+  water: ['#e8d9a8', '#1f5fd1'],
+  density: ['#1b1b3a', '#ffd23f'],
+};
+
+function parseHex(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+// Blend two #rrggbb colors; t = 0 gives `a`, 1 gives `b`
+function mixHex(a: string, b: string, t: number): [number, number, number] {
+  const from = parseHex(a);
+  const to = parseHex(b);
+  const k = Math.max(0, Math.min(1, t));
+  return [0, 1, 2].map(i => Math.round(from[i] + (to[i] - from[i]) * k)) as [number, number, number];
+}
+
+const toHex = (rgb: [number, number, number]) => `#${rgb.map(c => c.toString(16).padStart(2, '0')).join('')}`;
+
+// Estimated individuals on a tile: each species' population spread evenly
+// over the tiles it's present on
+export function tileDensities(tiles: Tile[], species: Species[]): Map<Tile, number> {
+  const occupied = new Map<string, number>();
+  for (const tile of tiles) {
+    for (const name of tile.species_present) occupied.set(name, (occupied.get(name) ?? 0) + 1);
+  }
+  const population = new Map(species.map(s => [s.name, s.population]));
+
+  return new Map(tiles.map(tile => [
+    tile,
+    tile.species_present.reduce((sum, name) => sum + (population.get(name) ?? 0) / (occupied.get(name) ?? 1), 0),
+  ]));
+}
+
+// Scale density against the busiest tile, with a floor so a near-empty
+// island doesn't light up
+function densityScale(densities: Map<Tile, number>): number {
+  return Math.max(100, ...densities.values());
+}
+
+// RGBA bytes for a gridSize x gridSize texture, row 0 at the bottom (v = 0),
+// so tile (0, 0) lands top-left like the height map. Alpha 0 where there's
+// no tile.
+export function overlayPixels(mode: OverlayMode, tiles: Tile[], species: Species[], gridSize: number): Uint8Array {
+  const pixels = new Uint8Array(gridSize * gridSize * 4);
+  if (mode === 'none') return pixels;
+
+  const densities = mode === 'density' ? tileDensities(tiles, species) : null;
+  const maxDensity = densities ? densityScale(densities) : 1;
+
+  for (const tile of tiles) {
+    if (tile.x < 0 || tile.y < 0 || tile.x >= gridSize || tile.y >= gridSize) continue;
+    let rgb: [number, number, number];
+    switch (mode) {
+      case 'biome':
+        rgb = parseHex(BIOME_COLORS[tile.biome]);
+        break;
+      case 'vegetation':
+        rgb = mixHex(...GRADIENTS.vegetation, tile.vegetation / BOUNDS.vegetation.max);
+        break;
+      case 'water':
+        rgb = mixHex(...GRADIENTS.water, tile.water_level / BOUNDS.water_level.max);
+        break;
+      case 'density':
+        rgb = mixHex(...GRADIENTS.density, (densities?.get(tile) ?? 0) / maxDensity);
+        break;
+    }
+    const i = ((gridSize - 1 - tile.y) * gridSize + tile.x) * 4;
+    pixels.set([...rgb, 255], i);
+  }
+  return pixels;
+}
+
+export function overlayLegend(mode: OverlayMode, tiles: Tile[], species: Species[]): LegendEntry[] {
+  switch (mode) {
+    case 'none':
+      return [];
+    case 'biome': {
+      // Only biomes actually on the map
+      const present = new Set<BiomeType>(tiles.map(t => t.biome));
+      return (Object.keys(BIOME_COLORS) as BiomeType[])
+        .filter(b => present.has(b))
+        .map(b => ({ label: b, color: BIOME_COLORS[b] }));
+    }
+    case 'vegetation':
+    case 'water': {
+      const [low, high] = GRADIENTS[mode];
+      return [0, 50, 100].map(v => ({ label: `${v}%`, color: toHex(mixHex(low, high, v / 100)) }));
+    }
+    case 'density': {
+      const max = densityScale(tileDensities(tiles, species));
+      const [low, high] = GRADIENTS.density;
+      return [0, 0.5, 1].map(t => ({ label: Math.round(max * t).toLocaleString(), color: toHex(mixHex(low, high, t)) }));
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { createNoise2D } from 'simplex-noise';
+import type { BiomeType, Tile } from './types';
+import { BIOME_COLORS } from './types';
+import { BOUNDS } from './schema';
+import { createRng, hashString } from './random';
+
+// Builds the terrain's height, normal and color maps from the tile grid, so
+// the island follows Tile.elevation / Tile.biome and the grid size. The
+// original PNGs are kept as the "Hawaii preset".
+
+export type TerrainSource = 'procedural' | 'hawaii';
+
+export const TERRAIN_SOURCE_LABELS: Record<TerrainSource, string> = {
+  procedural: 'Generated from tiles',
+  hawaii: 'Hawaii preset',
+};
+
+const TERRAIN_SOURCE_KEY = 'ecosim.terrainSource';
+
+export function getTerrainSource(): TerrainSource {
+  return localStorage.getItem(TERRAIN_SOURCE_KEY) === 'hawaii' ? 'hawaii' : 'procedural';
+}
+
+export function setTerrainSource(source: TerrainSource): void {
+  localStorage.setItem(TERRAIN_SOURCE_KEY, source);
+}
+
+// RGBA maps, row 0 at the top like the PNGs (tile y = 0)
+export interface TerrainMaps {
+  size: number;
+  height: Uint8Array;
+  normals: Uint8Array;
+  colors: Uint8Array;
+}
+
+const MAP_SIZE = 256;
+
+// Height (0-1) at the island's rim and for a tile at elevation 0 / 100.
+// The terrain shader drops anything under 0.15 as sea.
+const LAND_BASE = 0.22;
+const LAND_RANGE = 0.6;
+const NOISE_AMOUNT = 0.05;
+const NORMAL_STRENGTH = 6;
+
+const SAND_COLOR: [number, number, number] = [216, 198, 144];
+
+function parseHex(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+const BIOME_RGB = Object.fromEntries(
+  (Object.keys(BIOME_COLORS) as BiomeType[]).map(b => [b, parseHex(BIOME_COLORS[b])])
+) as Record<BiomeType, [number, number, number]>;
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// Tile lookup that clamps to the grid edge; missing tiles read as low grassland
+function tileGrid(tiles: Tile[], gridSize: number): (x: number, y: number) => Tile | null {
+  const grid: (Tile | null)[] = new Array(gridSize * gridSize).fill(null);
+  for (const tile of tiles) {
+    if (tile.x >= 0 && tile.y >= 0 && tile.x < gridSize && tile.y < gridSize) grid[tile.y * gridSize + tile.x] = tile;
+  }
+  return (x, y) => {
+    const cx = Math.max(0, Math.min(gridSize - 1, x));
+    const cy = Math.max(0, Math.min(gridSize - 1, y));
+    return grid[cy * gridSize + cx];
+  };
+}
+
+export function buildTerrainMaps(tiles: Tile[], gridSize: number, size = MAP_SIZE): TerrainMaps {
+  const at = tileGrid(tiles, gridSize);
+  // Seeded by grid size only, so the coastline stays put between turns
+  const noise2D = createNoise2D(createRng(hashString(`terrain:${gridSize}`)));
+  const heights = new Float32Array(size * size);
+  const colors = new Uint8Array(size * size * 4);
+
+  for (let py = 0; py < size; py++) {
+    for (let px = 0; px < size; px++) {
+      const u = (px + 0.5) / size;
+      const v = (py + 0.5) / size;
+
+      // Blend the four nearest tile centers (smoothstepped so tile
+      // boundaries don't show as creases)
+      const gx = u * gridSize - 0.5;
+      const gy = v * gridSize - 0.5;
+      const x0 = Math.floor(gx);
+      const y0 = Math.floor(gy);
+      const fx = smoothstep(0, 1, gx - x0);
+      const fy = smoothstep(0, 1, gy - y0);
+      const corners: [Tile | null, number][] = [
+        [at(x0, y0), (1 - fx) * (1 - fy)],
+        [at(x0 + 1, y0), fx * (1 - fy)],
+        [at(x0, y0 + 1), (1 - fx) * fy],
+        [at(x0 + 1, y0 + 1), fx * fy],
+      ];
+
+      let elevation = 0;
+      const rgb = [0, 0, 0];
+      for (const [tile, weight] of corners) {
+        elevation += (tile?.elevation ?? 0) * weight;
+        const color = BIOME_RGB[tile?.biome ?? 'grassland'];
+        for (let c = 0; c < 3; c++) rgb[c] += color[c] * weight;
+      }
+
+      // Round island: full height inside, sloping into the sea at the rim
+      const dist = Math.hypot(u - 0.5, v - 0.5);
+      const mask = smoothstep(0.56, 0.42, dist);
+      const detail = noise2D(u * 6, v * 6) * 0.7 + noise2D(u * 18, v * 18) * 0.3;
+      const height = Math.max(0, Math.min(1,
+        mask * (LAND_BASE + (elevation / BOUNDS.elevation.max) * LAND_RANGE) + detail * NOISE_AMOUNT * mask
+      ));
+      heights[py * size + px] = height;
+
+      // Beaches along the coast, and a little mottling everywhere
+      const sand = smoothstep(0.24, 0.17, height);
+      const shade = 1 + noise2D(u * 40 + 100, v * 40) * 0.08;
+      const i = (py * size + px) * 4;
+      for (let c = 0; c < 3; c++) {
+        colors[i + c] = Math.max(0, Math.min(255, (rgb[c] * (1 - sand) + SAND_COLOR[c] * sand) * shade));
+      }
+      colors[i + 3] = 255;
+    }
+  }
+
+  const height = new Uint8Array(size * size * 4);
+  const normals = new Uint8Array(size * size * 4);
+  const h = (x: number, y: number) =>
+    heights[Math.max(0, Math.min(size - 1, y)) * size + Math.max(0, Math.min(size - 1, x))];
+
+  for (let py = 0; py < size; py++) {
+    for (let px = 0; px < size; px++) {
+      const i = (py * size + px) * 4;
+      const value = Math.round(h(px, py) * 255);
+      height.set([value, value, value, 255], i);
+
+      // Tangent-space normal from the height gradient (image rows run down,
+      // so flip y to match texture space)
+      const nx = (h(px - 1, py) - h(px + 1, py)) * NORMAL_STRENGTH;
+      const ny = (h(px, py + 1) - h(px, py - 1)) * NORMAL_STRENGTH;
+      const length = Math.hypot(nx, ny, 1);
+      normals.set([
+        Math.round((nx / length * 0.5 + 0.5) * 255),
+        Math.round((ny / length * 0.5 + 0.5) * 255),
+        Math.round((1 / length * 0.5 + 0.5) * 255),
+        255,
+      ], i);
+    }
+  }
+
+  return { size, height, normals, colors };
+}
+
+// Terrain only depends on tile positions, elevations and biomes, which
+// rarely change between turns - reuse the last build while they don't
+let cached: { key: string; maps: TerrainMaps } | null = null;
+
+export function terrainMapsFor(tiles: Tile[], gridSize: number): TerrainMaps {
+  const key = `${gridSize}|${tiles.map(t => `${t.x},${t.y},${t.elevation},${t.biome}`).join(';')}`;
+  if (cached?.key !== key) cached = { key, maps: buildTerrainMaps(tiles, gridSize) };
+  return cached.maps;
+}
+
+// Copy with rows reversed - DataTextures put row 0 at the bottom (v = 0)
+export function flipRows(data: Uint8Array, size: number): Uint8Array {
+  const flipped = new Uint8Array(data.length);
+  const row = size * 4;
+  for (let y = 0; y < size; y++) {
+    flipped.set(data.subarray(y * row, (y + 1) * row), (size - 1 - y) * row);
+  }
+  return flipped;
+}
@@ -0,0 +1,212 @@
+import type { EcosystemState, InterventionRequest, SimulationResult } from './types';
+import type { SimulationProvider } from './api';
+import type { ValidationIssue } from './schema';
+import { formatIssues, parseEcosystemState, parseSimulationEvent } from './schema';
+
+// A session captured turn by turn, so it can be played back later without
+// the backend (demos, bug reports, deterministic UI checks)
+export const CURRENT_RECORDING_VERSION = 1;
+
+export interface RecordedTurn {
+  interventions: InterventionRequest[];
+  result: SimulationResult;
+}
+
+export interface Recording {
+  version: typeof CURRENT_RECORDING_VERSION;
+  recordedAt: string;
+  initial: EcosystemState;
+  turns: RecordedTurn[];
+}
+
+// JSON with object keys sorted, so equal states compare equal however
+// their fields were ordered
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_, v: unknown) =>
+    typeof v === 'object' && v !== null && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v
+  );
+}
+
+function sameState(a: EcosystemState, b: EcosystemState): boolean {
+  return a === b || (a.turn === b.turn && canonical(a) === canonical(b));
+}
+
+// Index of the recorded turn that ends in exactly `state` (0 = the initial
+// state), or -1 if it isn't part of the recording - a save, scenario or other
+// branch that happens to share a turn number doesn't count
+function findTurn(recording: Recording, state: EcosystemState): number {
+  if (sameState(state, recording.initial)) return 0;
+  const index = recording.turns.findIndex(t => sameState(state, t.result.new_state));
+  return index < 0 ? -1 : index + 1;
+}
+
+export interface Recorder {
+  // Same provider, with every create, load and advance captured
+  wrap(provider: SimulationProvider): SimulationProvider;
+  recording(): Recording | null;
+}
+
+export function createRecorder(): Recorder {
+  let current: Recording | null = null;
+
+  const start = (initial: EcosystemState) => {
+    current = { version: CURRENT_RECORDING_VERSION, recordedAt: new Date().toISOString(), initial, turns: [] };
+  };
+
+  // Loading a state we already recorded is a rewind - drop the turns after
+  // it. Anything else starts a new recording from what the provider loaded.
+  const rewindOrStart = (requested: EcosystemState, loaded: EcosystemState) => {
+    const index = current ? findTurn(current, requested) : -1;
+    if (current && index >= 0) {
+      current = { ...current, turns: current.turns.slice(0, index) };
+    } else {
+      start(loaded);
+    }
+  };
+
+  return {
+    wrap(provider) {
+      return {
+        ...provider,
+        async createEcosystem(gridSize, signal) {
+          const state = await provider.createEcosystem(gridSize, signal);
+          start(state);
+          return state;
+        },
+        async advanceTurn(interventions = [], signal) {
+          const result = await provider.advanceTurn(interventions, signal);
+          if (current) current = { ...current, turns: [...current.turns, { interventions, result }] };
+          return result;
+        },
+        async loadEcosystem(state, signal) {
+          const loaded = await provider.loadEcosystem(state, signal);
+          rewindOrStart(state, loaded);
+          return loaded;
+        },
+      };
+    },
+
+    recording() {
+      return current;
+    },
+  };
+}
+
+// Plays a recording back. Turns come out exactly as recorded, whatever
+// interventions are sent; a mismatch is flagged in the turn's warnings.
+export function createReplayProvider(recording: Recording): SimulationProvider {
+  let cursor = 0;
+
+  const currentState = () =>
+    cursor === 0 ? recording.initial : recording.turns[cursor - 1].result.new_state;
+
+  return {
+    id: 'replay',
+    label: 'Recorded replay',
+
+    async createEcosystem() {
+      cursor = 0;
+      return recording.initial;
+    },
+
+    async getEcosystem() {
+      return currentState();
+    },
+
+    async advanceTurn(interventions = [], signal) {
+      signal?.throwIfAborted();
+      const turn = recording.turns[cursor];
+      if (!turn) throw new Error(`End of recording (${recording.turns.length} turns)`);
+      cursor += 1;
+
+      if (JSON.stringify(interventions) === JSON.stringify(turn.interventions)) return turn.result;
+      return {
+        ...turn.result,
+        warnings: [
+          ...turn.result.warnings,
+          'Replay ignores new interventions - this turn shows what was recorded.',
+        ],
+      };
+    },
+
+    async chat() {
+      const state = currentState();
+      return `Chat isn't recorded. Replaying turn ${state.turn} of ${recording.initial.turn + recording.turns.length}.`;
+    },
+
+    // Only states from the recording can be loaded (rewinds)
+    async loadEcosystem(state) {
+      const index = findTurn(recording, state);
+      if (index < 0) throw new Error(`This turn ${state.turn} state isn't part of the recording`);
+      cursor = index;
+      return currentState();
+    },
+  };
+}
+
+// Thrown when a recording file doesn't match the format
+export class RecordingError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[] = []) {
+    super(issues.length > 0 ? `${message}: ${formatIssues(issues)}` : message);
+    this.name = 'RecordingError';
+    this.issues = issues;
+  }
+}
+
+function parseRecordedTurn(value: unknown, path: string, issues: ValidationIssue[]): RecordedTurn {
+  const turn = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  const result = (typeof turn.result === 'object' && turn.result !== null ? turn.result : {}) as Record<string, unknown>;
+
+  if (!Array.isArray(turn.interventions)) issues.push({ path: `${path}.interventions`, message: 'expected a list' });
+  if (!Array.isArray(result.events)) issues.push({ path: `${path}.result.events`, message: 'expected a list' });
+
+  return {
+    interventions: Array.isArray(turn.interventions) ? turn.interventions as InterventionRequest[] : [],
+    result: {
+      new_state: parseEcosystemState(result.new_state, `${path}.result.new_state`, issues),
+      events: Array.isArray(result.events)
+        ? result.events.map((event, i) => parseSimulationEvent(event, `${path}.result.events[${i}]`, issues))
+        : [],
+      narration: typeof result.narration === 'string' ? result.narration : '',
+      warnings: Array.isArray(result.warnings) ? result.warnings.filter((w): w is string => typeof w === 'string') : [],
+    },
+  };
+}
+
+// Parse a recording file's text. Throws RecordingError listing every invalid field.
+export function parseRecording(text: string): Recording {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new RecordingError('Invalid JSON file');
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new RecordingError('Invalid recording - expected a JSON object');
+  }
+  const raw = data as Record<string, unknown>;
+  if (raw.version !== CURRENT_RECORDING_VERSION) {
+    throw new RecordingError(`Unsupported recording version: ${String(raw.version)}`);
+  }
+  if (!Array.isArray(raw.turns)) {
+    throw new RecordingError('Invalid recording - missing turns');
+  }
+
+  const issues: ValidationIssue[] = [];
+  const recording: Recording = {
+    version: CURRENT_RECORDING_VERSION,
+    recordedAt: typeof raw.recordedAt === 'string' ? raw.recordedAt : new Date(0).toISOString(),
+    initial: parseEcosystemState(raw.initial, 'initial', issues),
+    turns: raw.turns.map((turn, i) => parseRecordedTurn(turn, `turns[${i}]`, issues)),
+  };
+
+  if (issues.length > 0) {
+    throw new RecordingError('Recording is invalid', issues);
+  }
+  return recording;
+}
@@ -0,0 +1,239 @@
+import type { EcosystemState, SimulationResult } from './types';
+import type { ValidationIssue } from './schema';
+import {
+  BIOME_TYPES,
+  BOUNDS,
+  DIET_TYPES,
+  SEVERITIES,
+  formatIssues,
+  normalizeSeason,
+  parseEcosystemState,
+  parseSimulationEvent,
+} from './schema';
+
+// Repairs for what the backend's language model sends back. Each rule fixes
+// a copy of the raw JSON and records what it changed as a field-path issue;
+// the strict schema parsers then run on the result, so anything the rules
+// can't repair is still rejected.
+
+// Thrown when a response is too broken to repair
+export class ResponseError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[] = []) {
+    super(issues.length > 0 ? `${message}: ${formatIssues(issues)}` : message);
+    this.name = 'ResponseError';
+    this.issues = issues;
+  }
+}
+
+type Raw = Record<string, unknown>;
+
+const TEMPERATURE = { min: -50, max: 60 };
+
+// Words the model uses instead of low/medium/high
+const SEVERITY_ALIASES: Record<string, SimulationResult['events'][number]['severity']> = {
+  minor: 'low',
+  mild: 'low',
+  moderate: 'medium',
+  major: 'high',
+  severe: 'high',
+  critical: 'high',
+  catastrophic: 'high',
+  extreme: 'high',
+};
+
+function isRaw(value: unknown): value is Raw {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function fixNumber(
+  obj: Raw,
+  key: string,
+  path: string,
+  corrections: ValidationIssue[],
+  opts: { min?: number; max?: number; integer?: boolean }
+): void {
+  const value = obj[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) return;
+  let fixed = opts.integer ? Math.round(value) : value;
+  if (opts.min !== undefined) fixed = Math.max(opts.min, fixed);
+  if (opts.max !== undefined) fixed = Math.min(opts.max, fixed);
+  if (fixed !== value) {
+    obj[key] = fixed;
+    corrections.push({ path: `${path}.${key}`, message: `${value} corrected to ${fixed}` });
+  }
+}
+
+function fixEnum<T extends string>(
+  obj: Raw,
+  key: string,
+  allowed: readonly T[],
+  path: string,
+  corrections: ValidationIssue[],
+  fallback: T,
+  aliases: Record<string, T> = {}
+): void {
+  const value = obj[key];
+  if (allowed.includes(value as T)) return;
+  const lower = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  const fixed = allowed.includes(lower as T) ? lower as T : aliases[lower] ?? fallback;
+  obj[key] = fixed;
+  // Only case or whitespace differed - not worth reporting
+  if (lower !== fixed) {
+    corrections.push({ path: `${path}.${key}`, message: `${JSON.stringify(value)} replaced with "${fixed}"` });
+  }
+}
+
+// Drop names that aren't in `known` from a list of species names
+function fixReferences(obj: Raw, key: string, known: Set<string>, path: string, corrections: ValidationIssue[]): void {
+  const value = obj[key];
+  if (!Array.isArray(value)) return;
+  const dangling = value.filter(name => typeof name === 'string' && !known.has(name));
+  if (dangling.length === 0) return;
+  obj[key] = value.filter(name => !dangling.includes(name));
+  corrections.push({ path: `${path}.${key}`, message: `dropped unknown species ${dangling.join(', ')}` });
+}
+
+const inGrid = (tile: Raw, gridSize: number) =>
+  typeof tile.x === 'number' && typeof tile.y === 'number' &&
+  tile.x >= 0 && tile.y >= 0 && tile.x < gridSize && tile.y < gridSize;
+
+// Drop tiles or coordinates outside the grid, and repeats of the same cell
+function fixCoords(obj: Raw, key: string, gridSize: number, path: string, corrections: ValidationIssue[]): void {
+  const value = obj[key];
+  if (!Array.isArray(value)) return;
+  const seen = new Set<string>();
+  const kept = value.filter(item => {
+    if (!isRaw(item)) return true;
+    fixNumber(item, 'x', path, [], { integer: true });
+    fixNumber(item, 'y', path, [], { integer: true });
+    const cell = `${item.x},${item.y}`;
+    if (!inGrid(item, gridSize) || seen.has(cell)) return false;
+    seen.add(cell);
+    return true;
+  });
+  if (kept.length !== value.length) {
+    obj[key] = kept;
+    corrections.push({
+      path: `${path}.${key}`,
+      message: `dropped ${value.length - kept.length} outside the ${gridSize}x${gridSize} grid or repeated`,
+    });
+  }
+}
+
+function speciesNames(state: Raw): Set<string> {
+  const species = Array.isArray(state.species) ? state.species : [];
+  return new Set(species.filter(isRaw).map(s => s.name).filter((name): name is string => typeof name === 'string'));
+}
+
+function sanitizeState(state: Raw, path: string, corrections: ValidationIssue[]): void {
+  fixNumber(state, 'turn', path, corrections, { min: 0, integer: true });
+  fixNumber(state, 'grid_size', path, corrections, { min: 1, integer: true });
+  fixNumber(state, 'temperature', path, corrections, TEMPERATURE);
+
+  if (typeof state.season === 'string') {
+    const season = normalizeSeason(state.season);
+    if (season !== state.season.trim().toLowerCase()) {
+      corrections.push({ path: `${path}.season`, message: `${JSON.stringify(state.season)} replaced with "${season}"` });
+    }
+    state.season = season;
+  }
+
+  const names = speciesNames(state);
+  if (Array.isArray(state.species)) {
+    state.species.forEach((species, i) => {
+      if (!isRaw(species)) return;
+      const at = `${path}.species[${i}]`;
+      fixNumber(species, 'population', at, corrections, { min: 0, integer: true });
+      fixNumber(species, 'reproduction_rate', at, corrections, BOUNDS.reproduction_rate);
+      fixNumber(species, 'territory_size', at, corrections, { min: 0 });
+      fixEnum(species, 'diet', DIET_TYPES, at, corrections, 'omnivore');
+      fixEnum(species, 'preferred_biome', BIOME_TYPES, at, corrections, 'grassland');
+      fixReferences(species, 'prey', names, at, corrections);
+      fixReferences(species, 'predators', names, at, corrections);
+    });
+  }
+
+  if (typeof state.grid_size === 'number') {
+    fixCoords(state, 'tiles', state.grid_size, path, corrections);
+  }
+  if (Array.isArray(state.tiles)) {
+    state.tiles.forEach((tile, i) => {
+      if (!isRaw(tile)) return;
+      const at = `${path}.tiles[${i}]`;
+      fixEnum(tile, 'biome', BIOME_TYPES, at, corrections, 'grassland');
+      fixNumber(tile, 'elevation', at, corrections, BOUNDS.elevation);
+      fixNumber(tile, 'water_level', at, corrections, BOUNDS.water_level);
+      fixNumber(tile, 'vegetation', at, corrections, BOUNDS.vegetation);
+      fixReferences(tile, 'species_present', names, at, corrections);
+    });
+  }
+}
+
+// Deep copy so the repairs never touch the caller's data
+function copy(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value ?? null));
+}
+
+// Repair and validate an EcosystemState. Returns it with the list of
+// corrections made; throws ResponseError if it still doesn't validate.
+export function sanitizeEcosystemState(
+  value: unknown,
+  path = 'state'
+): { state: EcosystemState; corrections: ValidationIssue[] } {
+  const raw = copy(value);
+  const corrections: ValidationIssue[] = [];
+  if (isRaw(raw)) sanitizeState(raw, path, corrections);
+
+  const issues: ValidationIssue[] = [];
+  const state = parseEcosystemState(raw, path, issues);
+  if (issues.length > 0) throw new ResponseError('Backend sent an invalid ecosystem', issues);
+  return { state, corrections };
+}
+
+// Same for a turn result; events are checked against the new state
+export function sanitizeSimulationResult(
+  value: unknown
+): { result: SimulationResult; corrections: ValidationIssue[] } {
+  const raw = copy(value);
+  const corrections: ValidationIssue[] = [];
+  const issues: ValidationIssue[] = [];
+  if (!isRaw(raw)) throw new ResponseError('Backend sent an invalid turn result - expected a JSON object');
+
+  const newState = isRaw(raw.new_state) ? raw.new_state : null;
+  if (newState) sanitizeState(newState, 'new_state', corrections);
+  const names = newState ? speciesNames(newState) : new Set<string>();
+  const gridSize = typeof newState?.grid_size === 'number' ? newState.grid_size : 0;
+
+  if (Array.isArray(raw.events)) {
+    raw.events.forEach((event, i) => {
+      if (!isRaw(event)) return;
+      const at = `events[${i}]`;
+      fixEnum(event, 'severity', SEVERITIES, at, corrections, 'medium', SEVERITY_ALIASES);
+      fixReferences(event, 'affected_species', names, at, corrections);
+      fixCoords(event, 'affected_tiles', gridSize, at, corrections);
+    });
+  }
+  if (Array.isArray(raw.warnings)) {
+    const warnings = raw.warnings.filter(w => typeof w === 'string');
+    if (warnings.length !== raw.warnings.length) {
+      corrections.push({ path: 'warnings', message: `dropped ${raw.warnings.length - warnings.length} that weren't text` });
+    }
+    raw.warnings = warnings;
+  }
+
+  const result: SimulationResult = {
+    new_state: parseEcosystemState(raw.new_state, 'new_state', issues),
+    events: Array.isArray(raw.events)
+      ? raw.events.map((event, i) => parseSimulationEvent(event, `events[${i}]`, issues))
+      : [],
+    narration: typeof raw.narration === 'string' ? raw.narration : '',
+    warnings: Array.isArray(raw.warnings) ? raw.warnings as string[] : [],
+  };
+  if (raw.events !== undefined && !Array.isArray(raw.events)) {
+    issues.push({ path: 'events', message: 'expected a list' });
+  }
+  if (issues.length > 0) throw new ResponseError('Backend sent an invalid turn result', issues);
+  return { result, corrections };
+}
@@ -0,0 +1,139 @@
+import type { EcosystemState, SimulationEvent } from './types';
+import type { ValidationIssue } from './schema';
+import { formatIssues, parseEcosystemState, parseSimulationEvent } from './schema';
+
+// Save file format. Bump CURRENT_SAVE_VERSION and add a migration below
+// whenever this shape changes, so older saves keep opening.
+export const CURRENT_SAVE_VERSION = 1;
+
+export interface SaveFile {
+  version: typeof CURRENT_SAVE_VERSION;
+  savedAt: string;
+  ecosystem: EcosystemState;
+  events: SimulationEvent[];
+  narration: string;
+}
+
+export interface LoadedSave {
+  ecosystem: EcosystemState;
+  events: SimulationEvent[];
+  narration: string;
+}
+
+// Thrown when a save doesn't match the schema; carries every field-path issue
+export class SaveFileError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[] = []) {
+    super(issues.length > 0 ? `${message}: ${formatIssues(issues)}` : message);
+    this.name = 'SaveFileError';
+    this.issues = issues;
+  }
+}
+
+type RawSave = Record<string, unknown>;
+
+// Migrations keyed by the version they upgrade FROM. Each step returns data
+// in the next version's shape.
+const MIGRATIONS: Record<number, (data: RawSave) => RawSave> = {
+  // v0: a bare EcosystemState, e.g. copied from the backend's /ecosystem
+  0: (data) => ({
+    version: 1,
+    savedAt: new Date(0).toISOString(),
+    ecosystem: data,
+    events: [],
+    narration: '',
+  }),
+};
+
+function detectVersion(data: RawSave): number {
+  if (typeof data.version === 'number') return data.version;
+  if ('species' in data && 'tiles' in data) return 0;
+  throw new SaveFileError('Invalid save file format - missing required data');
+}
+
+// Upgrade any known older version to CURRENT_SAVE_VERSION
+export function migrateSave(data: RawSave): RawSave {
+  let version = detectVersion(data);
+  if (version > CURRENT_SAVE_VERSION) {
+    throw new SaveFileError(
+      `Save file version ${version} is newer than this app supports (${CURRENT_SAVE_VERSION}) - please update`
+    );
+  }
+
+  let current = data;
+  while (version < CURRENT_SAVE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new SaveFileError(`No migration from save version ${version}`);
+    current = migrate(current);
+    version = detectVersion(current);
+  }
+  return current;
+}
+
+export function createSaveFile(ecosystem: EcosystemState, events: SimulationEvent[], narration: string): SaveFile {
+  return {
+    version: CURRENT_SAVE_VERSION,
+    savedAt: new Date().toISOString(),
+    ecosystem,
+    events,
+    narration,
+  };
+}
+
+// Trigger a browser download of a save file
+export function downloadSaveFile(save: SaveFile, filename: string): void {
+  downloadJson(save, filename);
+}
+
+// Trigger a browser download of any JSON-serializable data
+export function downloadJson(data: unknown, filename: string): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Parse a save file's text
+export function parseSaveFile(text: string): LoadedSave {
+  let data: unknown;
+
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SaveFileError('Invalid JSON file');
+  }
+
+  return readSaveData(data);
+}
+
+// Migrate and validate decoded save data (any supported version, or a raw
+// EcosystemState). Throws SaveFileError listing every invalid field.
+export function readSaveData(data: unknown): LoadedSave {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new SaveFileError('Invalid save file format - expected a JSON object');
+  }
+
+  const save = migrateSave(data as RawSave);
+  const issues: ValidationIssue[] = [];
+
+  const ecosystem = parseEcosystemState(save.ecosystem, 'ecosystem', issues);
+  const events = Array.isArray(save.events)
+    ? save.events.map((event, i) => parseSimulationEvent(event, `events[${i}]`, issues))
+    : [];
+  if (save.events !== undefined && !Array.isArray(save.events)) {
+    issues.push({ path: 'events', message: 'expected a list' });
+  }
+  const narration = typeof save.narration === 'string' ? save.narration : '';
+
+  if (issues.length > 0) {
+    throw new SaveFileError('Save file is invalid', issues);
+  }
+
+  return { ecosystem, events, narration };
+}
@@ -0,0 +1,123 @@
+import type { SaveFile } from './saveFile';
+
+// Browser-side save slots, stored in IndexedDB so sessions survive a refresh
+
+export interface SaveSlot {
+  id: string;
+  name: string;
+  savedAt: string;
+  turn: number;
+  season: string;
+  // Small JPEG data URL of the viewport, empty if capture failed
+  thumbnail: string;
+  autosave: boolean;
+  save: SaveFile;
+}
+
+const DB_NAME = 'ecosim';
+const DB_VERSION = 1;
+const STORE = 'saveSlots';
+
+export const AUTOSAVE_SLOT_ID = 'autosave';
+
+const AUTOSAVE_INTERVAL_KEY = 'ecosim.autosaveInterval';
+const DEFAULT_AUTOSAVE_INTERVAL = 5;
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run a single request against the store and close the connection after
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Newest first
+export async function listSlots(): Promise<SaveSlot[]> {
+  const slots = await withStore<SaveSlot[]>('readonly', store => store.getAll());
+  return slots.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+export async function getLatestSlot(): Promise<SaveSlot | null> {
+  const slots = await listSlots();
+  return slots[0] ?? null;
+}
+
+export async function putSlot(slot: SaveSlot): Promise<void> {
+  await withStore('readwrite', store => store.put(slot));
+}
+
+export async function deleteSlot(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export function createSlot(
+  id: string,
+  name: string,
+  save: SaveFile,
+  thumbnail: string,
+  autosave = false
+): SaveSlot {
+  return {
+    id,
+    name,
+    savedAt: save.savedAt,
+    turn: save.ecosystem.turn,
+    season: save.ecosystem.season,
+    thumbnail,
+    autosave,
+    save,
+  };
+}
+
+// Autosave every N turns (0 = off), kept in localStorage
+export function getAutosaveInterval(): number {
+  const stored = localStorage.getItem(AUTOSAVE_INTERVAL_KEY);
+  const value = stored === null ? DEFAULT_AUTOSAVE_INTERVAL : Number(stored);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_AUTOSAVE_INTERVAL;
+}
+
+export function setAutosaveInterval(turns: number): void {
+  localStorage.setItem(AUTOSAVE_INTERVAL_KEY, String(turns));
+}
+
+// Downscale the WebGL canvas into a small JPEG. Needs the renderer to keep
+// its drawing buffer (preserveDrawingBuffer) to read the last frame.
+export function captureThumbnail(canvas: HTMLCanvasElement | null, width = 160, height = 90): string {
+  if (!canvas) return '';
+  try {
+    const thumb = document.createElement('canvas');
+    thumb.width = width;
+    thumb.height = height;
+    const ctx = thumb.getContext('2d');
+    if (!ctx) return '';
+    // Center-crop to the thumbnail's aspect ratio
+    const scale = Math.min(canvas.width / width, canvas.height / height);
+    const sw = width * scale;
+    const sh = height * scale;
+    ctx.drawImage(canvas, (canvas.width - sw) / 2, (canvas.height - sh) / 2, sw, sh, 0, 0, width, height);
+    return thumb.toDataURL('image/jpeg', 0.7);
+  } catch (err) {
+    console.error('Thumbnail capture failed:', err);
+    return '';
+  }
+}
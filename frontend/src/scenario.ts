@@ -0,0 +1,193 @@
+import type { BiomeType, DietType, EcosystemState, Species, Tile } from './types';
+import type { ValidationIssue } from './schema';
+import { parseEcosystemState, parseSpecies } from './schema';
+
+// Helpers for authoring custom starting ecosystems and designing species
+
+export interface ScenarioCheck {
+  // Block loading the scenario
+  errors: ValidationIssue[];
+  // Worth fixing, but the backend will accept them
+  warnings: ValidationIssue[];
+}
+
+export function createSpecies(name: string): Species {
+  return {
+    name,
+    population: 50,
+    diet: 'herbivore',
+    prey: [],
+    predators: [],
+    preferred_biome: 'grassland',
+    reproduction_rate: 0.5,
+    territory_size: 1,
+  };
+}
+
+export function createTile(x: number, y: number, biome: BiomeType = 'grassland'): Tile {
+  return { x, y, biome, elevation: 20, water_level: 40, vegetation: 50, species_present: [] };
+}
+
+// Resize the grid, keeping existing tiles that still fit
+export function resizeGrid(tiles: Tile[], gridSize: number): Tile[] {
+  const existing = new Map(tiles.map(t => [`${t.x},${t.y}`, t]));
+  const result: Tile[] = [];
+  for (let x = 0; x < gridSize; x++) {
+    for (let y = 0; y < gridSize; y++) {
+      result.push(existing.get(`${x},${y}`) ?? createTile(x, y));
+    }
+  }
+  return result;
+}
+
+// Rename a species everywhere it's referenced
+export function renameSpecies(species: Species[], from: string, to: string): Species[] {
+  const swap = (names: string[]) => names.map(n => (n === from ? to : n));
+  return species.map(s => ({
+    ...s,
+    name: s.name === from ? to : s.name,
+    prey: swap(s.prey),
+    predators: swap(s.predators),
+  }));
+}
+
+// Remove a species and every link pointing at it
+export function removeSpecies(species: Species[], name: string): Species[] {
+  return species
+    .filter(s => s.name !== name)
+    .map(s => ({
+      ...s,
+      prey: s.prey.filter(n => n !== name),
+      predators: s.predators.filter(n => n !== name),
+    }));
+}
+
+// What each diet can eat, and what can eat it
+const EATS: Record<DietType, DietType[]> = {
+  producer: [],
+  herbivore: ['producer'],
+  carnivore: ['herbivore', 'omnivore'],
+  omnivore: ['producer', 'herbivore'],
+};
+
+// Suggest food-web links for a designed species from the existing roster,
+// preferring species that share its habitat
+export function suggestLinks(draft: Species, existing: Species[]): { prey: string[]; predators: string[] } {
+  const others = existing.filter(s => s.name !== draft.name && s.population > 0);
+  const local = (candidates: Species[]) => {
+    const sameBiome = candidates.filter(s => s.preferred_biome === draft.preferred_biome);
+    return (sameBiome.length > 0 ? sameBiome : candidates).map(s => s.name);
+  };
+
+  return {
+    prey: local(others.filter(s => EATS[draft.diet].includes(s.diet))),
+    predators: local(others.filter(s => EATS[s.diet].includes(draft.diet))),
+  };
+}
+
+// Make every prey/predator link two-sided (A eats B <=> B is eaten by A)
+export function symmetrizeLinks(species: Species[]): Species[] {
+  const prey = new Map(species.map(s => [s.name, new Set(s.prey)]));
+  const predators = new Map(species.map(s => [s.name, new Set(s.predators)]));
+
+  for (const s of species) {
+    for (const p of s.prey) predators.get(p)?.add(s.name);
+    for (const p of s.predators) prey.get(p)?.add(s.name);
+  }
+
+  return species.map(s => ({
+    ...s,
+    prey: [...(prey.get(s.name) ?? [])],
+    predators: [...(predators.get(s.name) ?? [])],
+  }));
+}
+
+// Problems that would stop a designed species being introduced. Extinct
+// species (population 0) can be brought back under their old name.
+export function checkSpecies(draft: Species, existing: Species[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  parseSpecies(draft, 'species', issues);
+
+  if (existing.some(s => s.population > 0 && s.name.toLowerCase() === draft.name.trim().toLowerCase())) {
+    issues.push({ path: 'species.name', message: `${draft.name} already exists` });
+  }
+  // The introduction count must be at least 1
+  if (draft.population < 1) {
+    issues.push({ path: 'species.population', message: 'introduce at least 1' });
+  }
+  if (draft.diet === 'producer' && draft.prey.length > 0) {
+    issues.push({ path: 'species.prey', message: 'producers cannot have prey' });
+  }
+  return issues;
+}
+
+// Field bounds (same as save files) plus food-web consistency
+export function checkScenario(state: EcosystemState): ScenarioCheck {
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+
+  parseEcosystemState(state, 'scenario', errors);
+
+  const names = new Set<string>();
+  state.species.forEach((s, i) => {
+    const path = `species[${i}] ${s.name || '(unnamed)'}`;
+    if (names.has(s.name)) errors.push({ path, message: 'duplicate species name' });
+    names.add(s.name);
+  });
+
+  const byName = new Map(state.species.map(s => [s.name, s]));
+  state.species.forEach((s, i) => {
+    const path = `species[${i}] ${s.name || '(unnamed)'}`;
+
+    for (const p of [...s.prey, ...s.predators]) {
+      if (p === s.name) errors.push({ path, message: 'cannot prey on itself' });
+      else if (!names.has(p)) errors.push({ path, message: `references unknown species "${p}"` });
+    }
+
+    if (s.diet === 'producer' && s.prey.length > 0) {
+      errors.push({ path, message: 'producers cannot have prey' });
+    }
+    if (s.diet !== 'producer' && s.prey.length === 0) {
+      warnings.push({ path, message: `${s.diet} has nothing to eat` });
+    }
+
+    for (const p of s.prey) {
+      const other = byName.get(p);
+      if (other && !other.predators.includes(s.name)) {
+        warnings.push({ path, message: `eats ${p}, but ${p} doesn't list it as a predator` });
+      }
+    }
+    for (const p of s.predators) {
+      const other = byName.get(p);
+      if (other && !other.prey.includes(s.name)) {
+        warnings.push({ path, message: `is eaten by ${p}, but ${p} doesn't list it as prey` });
+      }
+    }
+
+    if (!state.tiles.some(t => t.biome === s.preferred_biome)) {
+      warnings.push({ path, message: `no ${s.preferred_biome} tiles for its preferred habitat` });
+    }
+  });
+
+  if (state.tiles.length !== state.grid_size * state.grid_size) {
+    errors.push({ path: 'tiles', message: `expected ${state.grid_size * state.grid_size} tiles for a ${state.grid_size}x${state.grid_size} grid` });
+  }
+
+  return { errors, warnings };
+}
+
+// Prepare an edited scenario for loading: restart at turn 0 and place each
+// species on its preferred biome, like the backend's default ecosystem does
+export function finalizeScenario(state: EcosystemState): EcosystemState {
+  return {
+    ...state,
+    turn: 0,
+    tiles: state.tiles.map(t => ({
+      ...t,
+      species_present: state.species
+        .filter(s => s.preferred_biome === t.biome && s.population > 0)
+        .map(s => s.name),
+    })),
+    events_log: ['Custom scenario loaded.'],
+  };
+}
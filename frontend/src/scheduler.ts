@@ -0,0 +1,105 @@
+import type { EcosystemState, InterventionRequest } from './types';
+
+export type PopulationComparison = '>' | '<';
+
+export type ScheduleTrigger =
+  // Applied on the turn that produces this turn number
+  | { type: 'turn'; turn: number }
+  // Applied on the first turn of this season
+  | { type: 'season'; season: string }
+  // Applied once a species' population crosses a threshold, e.g. Rabbit > 500
+  | { type: 'population'; species: string; comparison: PopulationComparison; value: number };
+
+export interface ScheduledIntervention {
+  id: string;
+  intervention: InterventionRequest;
+  trigger: ScheduleTrigger;
+  // Re-arm after firing (season and population triggers only)
+  repeat: boolean;
+  // Whether the trigger matched when last checked, so season and repeating
+  // population triggers fire on the transition rather than every turn
+  lastMatched: boolean;
+}
+
+function triggerMatches(trigger: ScheduleTrigger, state: EcosystemState): boolean {
+  switch (trigger.type) {
+    case 'turn':
+      return state.turn + 1 >= trigger.turn;
+    case 'season':
+      return state.season.toLowerCase() === trigger.season.toLowerCase();
+    case 'population': {
+      const population = state.species.find(s => s.name === trigger.species)?.population ?? 0;
+      return trigger.comparison === '>' ? population > trigger.value : population < trigger.value;
+    }
+  }
+}
+
+export function createScheduled(
+  id: string,
+  intervention: InterventionRequest,
+  trigger: ScheduleTrigger,
+  repeat: boolean,
+  state: EcosystemState
+): ScheduledIntervention {
+  return {
+    id,
+    intervention,
+    trigger,
+    repeat: repeat && trigger.type !== 'turn',
+    // "Next spring" shouldn't fire during the current spring; a one-off
+    // population condition that already holds fires on the next turn
+    lastMatched: trigger.type === 'season' || (trigger.type === 'population' && repeat)
+      ? triggerMatches(trigger, state)
+      : false,
+  };
+}
+
+// Check every entry against the state a turn is about to run from. Returns
+// the interventions to inject (in schedule order), the entries that fired
+// (as they were before firing) and the updated schedule.
+export function collectDue(
+  schedule: ScheduledIntervention[],
+  base: EcosystemState
+): { due: InterventionRequest[]; fired: ScheduledIntervention[]; remaining: ScheduledIntervention[] } {
+  const due: InterventionRequest[] = [];
+  const fired: ScheduledIntervention[] = [];
+  const remaining: ScheduledIntervention[] = [];
+
+  for (const entry of schedule) {
+    const matched = triggerMatches(entry.trigger, base);
+    const fires = matched && !entry.lastMatched;
+    if (fires) {
+      due.push(entry.intervention);
+      fired.push(entry);
+    }
+    if (!fires || entry.repeat) remaining.push({ ...entry, lastMatched: matched });
+  }
+
+  return { due, fired, remaining };
+}
+
+// Undo firing `fired` after its turn failed, leaving any entries added or
+// removed since alone: one-off entries go back in front, repeating ones
+// still in the schedule are re-armed
+export function restoreFired(
+  schedule: ScheduledIntervention[],
+  fired: ScheduledIntervention[]
+): ScheduledIntervention[] {
+  const ids = new Set(schedule.map(entry => entry.id));
+  const before = new Map(fired.map(entry => [entry.id, entry]));
+  return [
+    ...fired.filter(entry => !entry.repeat && !ids.has(entry.id)),
+    ...schedule.map(entry => before.get(entry.id) ?? entry),
+  ];
+}
+
+export function describeTrigger(trigger: ScheduleTrigger, repeat: boolean): string {
+  switch (trigger.type) {
+    case 'turn':
+      return `At turn ${trigger.turn}`;
+    case 'season':
+      return repeat ? `Every ${trigger.season}` : `Next ${trigger.season}`;
+    case 'population':
+      return `${repeat ? 'Whenever' : 'When'} ${trigger.species} ${trigger.comparison} ${trigger.value}`;
+  }
+}
@@ -0,0 +1,204 @@
+import type {
+  BiomeType,
+  DietType,
+  EcosystemState,
+  SimulationEvent,
+  Species,
+  Tile,
+  TileCoord,
+} from './types';
+
+// Runtime checks for the shapes in types.ts, mirroring the bounds the
+// backend's Pydantic schemas (backend/schemas.py) enforce. Each parser
+// returns a normalized copy (list fields default to [] like Pydantic does)
+// and records problems as field-path issues instead of throwing.
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export const BIOME_TYPES: BiomeType[] = ['grassland', 'forest', 'desert', 'tundra', 'wetland', 'mountain'];
+export const DIET_TYPES: DietType[] = ['herbivore', 'carnivore', 'omnivore', 'producer'];
+export const SEVERITIES: SimulationEvent['severity'][] = ['low', 'medium', 'high'];
+// In the order turns move through them
+export const SEASONS = ['spring', 'summer', 'fall', 'winter'];
+
+export const BOUNDS = {
+  reproduction_rate: { min: 0, max: 2 },
+  elevation: { min: 0, max: 100 },
+  water_level: { min: 0, max: 100 },
+  vegetation: { min: 0, max: 100 },
+} as const;
+
+// One of SEASONS; "autumn" reads as fall and anything unknown as spring
+export function normalizeSeason(season: string): string {
+  const lower = season.trim().toLowerCase();
+  if (lower === 'autumn') return 'fall';
+  return SEASONS.includes(lower) ? lower : 'spring';
+}
+
+export function formatIssues(issues: ValidationIssue[], limit = 3): string {
+  const shown = issues.slice(0, limit).map(i => `${i.path}: ${i.message}`);
+  if (issues.length > limit) shown.push(`(+${issues.length - limit} more)`);
+  return shown.join('; ');
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'missing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return JSON.stringify(value.length > 20 ? `${value.slice(0, 20)}…` : value);
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Small field readers shared by the parsers below
+
+function readString(obj: Record<string, unknown>, key: string, path: string, issues: ValidationIssue[]): string {
+  const value = obj[key];
+  if (typeof value === 'string') return value;
+  issues.push({ path: `${path}.${key}`, message: `expected a string (got ${describe(value)})` });
+  return '';
+}
+
+function readNumber(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: ValidationIssue[],
+  opts: { min?: number; max?: number; integer?: boolean } = {}
+): number {
+  const value = obj[key];
+  const fieldPath = `${path}.${key}`;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path: fieldPath, message: `expected a number (got ${describe(value)})` });
+    return opts.min ?? 0;
+  }
+  if (opts.integer && !Number.isInteger(value)) {
+    issues.push({ path: fieldPath, message: `expected a whole number (got ${value})` });
+  }
+  if (opts.min !== undefined && opts.max !== undefined && (value < opts.min || value > opts.max)) {
+    issues.push({ path: fieldPath, message: `must be between ${opts.min} and ${opts.max} (got ${value})` });
+  } else if (opts.min !== undefined && value < opts.min) {
+    issues.push({ path: fieldPath, message: `must be at least ${opts.min} (got ${value})` });
+  }
+  return value;
+}
+
+function readEnum<T extends string>(
+  obj: Record<string, unknown>,
+  key: string,
+  allowed: readonly T[],
+  path: string,
+  issues: ValidationIssue[]
+): T {
+  const value = obj[key];
+  if (allowed.includes(value as T)) return value as T;
+  issues.push({ path: `${path}.${key}`, message: `expected one of ${allowed.join(', ')} (got ${describe(value)})` });
+  return allowed[0];
+}
+
+// Optional list of strings - missing means [] (Pydantic default)
+function readStringList(obj: Record<string, unknown>, key: string, path: string, issues: ValidationIssue[]): string[] {
+  const value = obj[key];
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ path: `${path}.${key}`, message: `expected a list (got ${describe(value)})` });
+    return [];
+  }
+  return value.filter((item, i) => {
+    if (typeof item === 'string') return true;
+    issues.push({ path: `${path}.${key}[${i}]`, message: `expected a string (got ${describe(item)})` });
+    return false;
+  });
+}
+
+function readList<T>(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: ValidationIssue[],
+  parseItem: (value: unknown, path: string, issues: ValidationIssue[]) => T,
+  required: boolean
+): T[] {
+  const value = obj[key];
+  if (value === undefined && !required) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ path: `${path}.${key}`, message: `expected a list (got ${describe(value)})` });
+    return [];
+  }
+  return value.map((item, i) => parseItem(item, `${path}.${key}[${i}]`, issues));
+}
+
+function requireRecord(value: unknown, path: string, issues: ValidationIssue[]): Record<string, unknown> | null {
+  if (isRecord(value)) return value;
+  issues.push({ path, message: `expected an object (got ${describe(value)})` });
+  return null;
+}
+
+export function parseSpecies(value: unknown, path: string, issues: ValidationIssue[]): Species {
+  const obj = requireRecord(value, path, issues) ?? {};
+  const name = readString(obj, 'name', path, issues);
+  if (obj.name !== undefined && name.trim() === '') {
+    issues.push({ path: `${path}.name`, message: 'must not be empty' });
+  }
+  return {
+    name,
+    population: readNumber(obj, 'population', path, issues, { min: 0, integer: true }),
+    diet: readEnum(obj, 'diet', DIET_TYPES, path, issues),
+    prey: readStringList(obj, 'prey', path, issues),
+    predators: readStringList(obj, 'predators', path, issues),
+    preferred_biome: readEnum(obj, 'preferred_biome', BIOME_TYPES, path, issues),
+    reproduction_rate: readNumber(obj, 'reproduction_rate', path, issues, BOUNDS.reproduction_rate),
+    territory_size: readNumber(obj, 'territory_size', path, issues, { min: 0 }),
+  };
+}
+
+export function parseTile(value: unknown, path: string, issues: ValidationIssue[]): Tile {
+  const obj = requireRecord(value, path, issues) ?? {};
+  return {
+    x: readNumber(obj, 'x', path, issues, { integer: true }),
+    y: readNumber(obj, 'y', path, issues, { integer: true }),
+    biome: readEnum(obj, 'biome', BIOME_TYPES, path, issues),
+    elevation: readNumber(obj, 'elevation', path, issues, BOUNDS.elevation),
+    water_level: readNumber(obj, 'water_level', path, issues, BOUNDS.water_level),
+    vegetation: readNumber(obj, 'vegetation', path, issues, BOUNDS.vegetation),
+    species_present: readStringList(obj, 'species_present', path, issues),
+  };
+}
+
+export function parseTileCoord(value: unknown, path: string, issues: ValidationIssue[]): TileCoord {
+  const obj = requireRecord(value, path, issues) ?? {};
+  return {
+    x: readNumber(obj, 'x', path, issues, { integer: true }),
+    y: readNumber(obj, 'y', path, issues, { integer: true }),
+  };
+}
+
+export function parseEcosystemState(value: unknown, path: string, issues: ValidationIssue[]): EcosystemState {
+  const obj = requireRecord(value, path, issues) ?? {};
+  return {
+    turn: readNumber(obj, 'turn', path, issues, { min: 0, integer: true }),
+    grid_size: readNumber(obj, 'grid_size', path, issues, { integer: true }),
+    tiles: readList(obj, 'tiles', path, issues, parseTile, true),
+    species: readList(obj, 'species', path, issues, parseSpecies, true),
+    season: readString(obj, 'season', path, issues),
+    temperature: readNumber(obj, 'temperature', path, issues),
+    events_log: readStringList(obj, 'events_log', path, issues),
+  };
+}
+
+export function parseSimulationEvent(value: unknown, path: string, issues: ValidationIssue[]): SimulationEvent {
+  const obj = requireRecord(value, path, issues) ?? {};
+  return {
+    description: readString(obj, 'description', path, issues),
+    affected_species: readStringList(obj, 'affected_species', path, issues),
+    affected_tiles: readList(obj, 'affected_tiles', path, issues, parseTileCoord, false),
+    severity: readEnum(obj, 'severity', SEVERITIES, path, issues),
+  };
+}
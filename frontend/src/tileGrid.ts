@@ -0,0 +1,44 @@
+import type { Tile } from './types';
+
+// Helpers for mapping between the backend's tile grid and the 3D terrain.
+//
+// The terrain is a square plane rotated flat onto the XZ plane. Tile (0, 0)
+// sits at the top-left of the height/color textures, which is world
+// (-halfSize, -halfSize); x grows along world X and y grows along world Z.
+
+export const TERRAIN_SIZE = 64;
+
+// Where the viewport puts the terrain. Shared, so memoized marker layouts
+// don't see a new array on every render.
+export const TERRAIN_POSITION: [number, number, number] = [0, -3, 0];
+
+// Convert a mesh UV hit (three.js convention: v = 0 at the bottom edge) to a
+// tile grid coordinate
+export function uvToTile(u: number, v: number, gridSize: number): [number, number] {
+  const x = Math.floor(u * gridSize);
+  const y = Math.floor((1 - v) * gridSize);
+  return [
+    Math.max(0, Math.min(gridSize - 1, x)),
+    Math.max(0, Math.min(gridSize - 1, y)),
+  ];
+}
+
+// World-space center (X, Z) of a tile
+export function tileCenter(
+  x: number,
+  y: number,
+  gridSize: number,
+  terrainSize: number = TERRAIN_SIZE,
+  terrainPosition: [number, number, number] = [0, -3, 0]
+): [number, number] {
+  const tileSize = terrainSize / gridSize;
+  return [
+    (x + 0.5) * tileSize - terrainSize / 2 + terrainPosition[0],
+    (y + 0.5) * tileSize - terrainSize / 2 + terrainPosition[2],
+  ];
+}
+
+// Look up a tile by grid coordinate
+export function findTile(tiles: Tile[], x: number, y: number): Tile | null {
+  return tiles.find(t => t.x === x && t.y === y) ?? null;
+}
@@ -0,0 +1,102 @@
+import type { EcosystemState, InterventionRequest, SimulationEvent } from './types';
+
+// A single turn in the timeline tree
+export interface TimelineNode {
+  id: string;
+  parentId: string | null;
+  branch: string;
+  state: EcosystemState;
+  events: SimulationEvent[];
+  narration: string;
+  warnings: string[];
+  // Interventions applied on the turn that produced this node
+  interventions: InterventionRequest[];
+}
+
+export interface TimelineBranch {
+  name: string;
+  headId: string;
+  // Node this branch was forked from (null for the root branch)
+  forkedFromId: string | null;
+}
+
+// Tree of every turn played this session. Rewinding moves `currentId` back;
+// advancing from a node that already has children forks a new branch.
+export interface Timeline {
+  nodes: Record<string, TimelineNode>;
+  branches: TimelineBranch[];
+  currentId: string;
+}
+
+export const ROOT_BRANCH = 'main';
+
+type TurnResult = Pick<TimelineNode, 'state' | 'events' | 'narration' | 'warnings' | 'interventions'>;
+
+function nodeId(branch: string, turn: number): string {
+  return `${branch}@${turn}`;
+}
+
+export function createTimeline(root: TurnResult): Timeline {
+  const id = nodeId(ROOT_BRANCH, root.state.turn);
+  return {
+    nodes: { [id]: { id, parentId: null, branch: ROOT_BRANCH, ...root } },
+    branches: [{ name: ROOT_BRANCH, headId: id, forkedFromId: null }],
+    currentId: id,
+  };
+}
+
+export function currentNode(timeline: Timeline): TimelineNode {
+  return timeline.nodes[timeline.currentId];
+}
+
+// True when advancing from the current node would fork a new branch
+export function isRewound(timeline: Timeline): boolean {
+  const current = currentNode(timeline);
+  return !timeline.branches.some(b => b.headId === current.id && b.name === current.branch);
+}
+
+// Pick a branch name that isn't taken yet
+export function uniqueBranchName(timeline: Timeline, requested: string): string {
+  const base = requested.trim() || `Branch ${timeline.branches.length}`;
+  const taken = new Set(timeline.branches.map(b => b.name));
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base} (${n})`)) n++;
+  return `${base} (${n})`;
+}
+
+// Record a new turn after the current node. Extends the current branch when
+// we're at its head, otherwise forks a branch named `forkName`.
+export function appendTurn(timeline: Timeline, result: TurnResult, forkName = ''): Timeline {
+  const parent = currentNode(timeline);
+  const fork = isRewound(timeline);
+  const branch = fork ? uniqueBranchName(timeline, forkName) : parent.branch;
+  const id = nodeId(branch, result.state.turn);
+
+  const node: TimelineNode = { id, parentId: parent.id, branch, ...result };
+  const branches = fork
+    ? [...timeline.branches, { name: branch, headId: id, forkedFromId: parent.id }]
+    : timeline.branches.map(b => (b.name === branch ? { ...b, headId: id } : b));
+
+  return {
+    nodes: { ...timeline.nodes, [id]: node },
+    branches,
+    currentId: id,
+  };
+}
+
+export function rewindTo(timeline: Timeline, id: string): Timeline {
+  if (!timeline.nodes[id]) return timeline;
+  return { ...timeline, currentId: id };
+}
+
+// Nodes from the root down to `id`, oldest first
+export function pathTo(timeline: Timeline, id: string): TimelineNode[] {
+  const path: TimelineNode[] = [];
+  let node: TimelineNode | undefined = timeline.nodes[id];
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? timeline.nodes[node.parentId] : undefined;
+  }
+  return path;
+}
@@ -0,0 +1,46 @@
+import type { Tile } from './types';
+
+// Turn-to-turn animation in the viewport. Everything tweens inside
+// useFrame, so a turn's state lands in React straight away and the scene
+// catches up over the next frames.
+
+const TRANSITION_KEY = 'ecosim.transitionMs';
+const DEFAULT_TRANSITION_MS = 1200;
+
+export const MAX_TRANSITION_MS = 3000;
+
+// 0 turns transitions off
+export function getTransitionMs(): number {
+  const stored = localStorage.getItem(TRANSITION_KEY);
+  const value = stored === null ? DEFAULT_TRANSITION_MS : Number(stored);
+  return Number.isFinite(value) && value >= 0 ? Math.min(value, MAX_TRANSITION_MS) : DEFAULT_TRANSITION_MS;
+}
+
+export function setTransitionMs(ms: number): void {
+  localStorage.setItem(TRANSITION_KEY, String(ms));
+}
+
+// Progress (0-1, eased) of a transition that started at `start` seconds on
+// the render clock
+export function transitionProgress(start: number, now: number, durationMs: number): number {
+  if (durationMs <= 0) return 1;
+  const t = Math.min(1, Math.max(0, (now - start) * 1000 / durationMs));
+  return t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+}
+
+// Smallest vegetation or water change (0-100 scale) worth a glow
+const GLOW_THRESHOLD = 5;
+
+// Tiles that changed noticeably between two states
+export function changedTiles(previous: Tile[], next: Tile[]): Tile[] {
+  const before = new Map(previous.map(t => [`${t.x},${t.y}`, t]));
+  return next.filter(tile => {
+    const old = before.get(`${tile.x},${tile.y}`);
+    if (!old) return false;
+    return old.biome !== tile.biome
+      || Math.abs(old.vegetation - tile.vegetation) >= GLOW_THRESHOLD
+      || Math.abs(old.water_level - tile.water_level) >= GLOW_THRESHOLD
+      || old.species_present.length !== tile.species_present.length
+      || old.species_present.some(name => !tile.species_present.includes(name));
+  });
+}
@@ -52,11 +52,65 @@ export interface SimulationResult {
   warnings: string[];
 }
 
-export interface InterventionRequest {
-  action: string;
-  details?: string;
+// Square of tiles `radius` steps around a center tile (radius 0 = one tile)
+export interface TileArea {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export type Intensity = 'low' | 'medium' | 'high';
+
+export interface IntroduceSpeciesIntervention {
+  kind: 'introduce_species';
+  // Full definition of the species being introduced
+  species: Species;
+  count: number;
+  area?: TileArea;
 }
 
+export interface RemoveSpeciesIntervention {
+  kind: 'remove_species';
+  target: string;
+  // Omitted = remove every individual
+  count?: number;
+  area?: TileArea;
+}
+
+export interface DisasterIntervention {
+  kind: 'natural_disaster';
+  disaster: string;
+  intensity: Intensity;
+  // Turns the effect lasts
+  duration: number;
+  area?: TileArea;
+}
+
+export interface ClimateIntervention {
+  kind: 'change_climate';
+  event: string;
+  intensity: Intensity;
+  duration: number;
+}
+
+export interface CalamityIntervention {
+  kind: 'calamity';
+  calamity: string;
+  intensity: Intensity;
+  duration: number;
+  area?: TileArea;
+}
+
+// Body of /ecosystem/advance, tagged by `kind` (mirrors backend/schemas.py)
+export type InterventionRequest =
+  | IntroduceSpeciesIntervention
+  | RemoveSpeciesIntervention
+  | DisasterIntervention
+  | ClimateIntervention
+  | CalamityIntervention;
+
+export type InterventionKind = InterventionRequest['kind'];
+
 // Biome colors for 3D rendering
 export const BIOME_COLORS: Record<BiomeType, string> = {
   grassland: '#8b7355',
@@ -67,6 +121,21 @@ export const BIOME_COLORS: Record<BiomeType, string> = {
   mountain: '#5a5a6e',
 };
 
+// Colors for different species types - highly distinct (map markers and UI)
+export const DIET_COLORS: Record<DietType, string> = {
+  producer: '#00FF00',    // Bright lime green for plants
+  herbivore: '#00BFFF',   // Deep sky blue for herbivores
+  carnivore: '#FF0000',   // Pure red for carnivores/predators
+  omnivore: '#FF8C00',    // Dark orange for omnivores
+};
+
+// Event severity colors on the map (match the event log's borders)
+export const SEVERITY_COLORS: Record<SimulationEvent['severity'], string> = {
+  low: '#3b82f6',
+  medium: '#eab308',
+  high: '#ef4444',
+};
+
 // Species icons/emojis for UI
 export const SPECIES_ICONS: Record<string, string> = {
   'Grass': '🌿',
@@ -0,0 +1,84 @@
+import type { ClimateIntervention, DisasterIntervention, Intensity } from './types';
+import type { InterventionLogEntry } from './interventions';
+import { normalizeSeason } from './schema';
+
+// What the viewport should draw for the current season, temperature and any
+// climate interventions in effect. Amounts are 0-1.
+export interface Weather {
+  rain: number;
+  snow: number;
+  haze: number;
+  shimmer: number;
+  // Terrain height (0-1, same scale as the height map) above which the
+  // ground is snow-covered; above 1 means no snow
+  snowLine: number;
+}
+
+// Climate events, plus the natural disasters that come with weather
+export type WeatherIntervention = ClimateIntervention | DisasterIntervention;
+
+export function weatherName(intervention: WeatherIntervention): string {
+  return intervention.kind === 'change_climate' ? intervention.event : intervention.disaster;
+}
+
+const INTENSITY_AMOUNT: Record<Intensity, number> = { low: 0.4, medium: 0.7, high: 1 };
+
+const CLEAR: Weather = { rain: 0, snow: 0, haze: 0, shimmer: 0, snowLine: 1.2 };
+
+const SEASON_WEATHER: Record<string, Partial<Weather>> = {
+  spring: { rain: 0.35 },
+  summer: {},
+  fall: { haze: 0.5, rain: 0.15 },
+  winter: { rain: 0.2 },
+};
+
+// Snow line tracks temperature: around the peaks at 10°C, down to the
+// lowlands below freezing, gone above ~25°C
+function snowLineFor(temperature: number): number {
+  return Math.max(0.3, Math.min(1.2, 0.55 + temperature * 0.026));
+}
+
+export function weatherFor(season: string, temperature: number, climate: WeatherIntervention[] = []): Weather {
+  const weather: Weather = { ...CLEAR, ...SEASON_WEATHER[normalizeSeason(season)], snowLine: snowLineFor(temperature) };
+
+  // Precipitation falls as snow when it's cold
+  if (temperature <= 2) {
+    weather.snow = Math.max(weather.rain, 0.5);
+    weather.rain = 0;
+  }
+  if (temperature >= 24) weather.shimmer = Math.min(1, (temperature - 22) / 10);
+
+  for (const event of climate) {
+    const amount = INTENSITY_AMOUNT[event.intensity];
+    const name = weatherName(event).toLowerCase();
+    if (name.includes('rain') || name.includes('flood')) {
+      if (temperature <= 2) weather.snow = Math.max(weather.snow, amount);
+      else weather.rain = Math.max(weather.rain, amount);
+    } else if (name.includes('dry') || name.includes('drought')) {
+      weather.rain = 0;
+      weather.snow = 0;
+      weather.haze = Math.max(weather.haze, amount * 0.6);
+      weather.shimmer = Math.max(weather.shimmer, amount);
+    } else if (name.includes('rise')) {
+      weather.shimmer = Math.max(weather.shimmer, amount * 0.7);
+    } else if (name.includes('drop')) {
+      weather.snowLine = Math.max(0.3, weather.snowLine - amount * 0.2);
+    }
+  }
+  return weather;
+}
+
+// Disasters drawn as weather (the rest have no sky to show)
+const WEATHER_DISASTERS = ['flood', 'drought'];
+
+// Climate interventions and weather disasters still in effect at `turn` -
+// each lasts `duration` turns from the turn it was applied on
+export function activeClimate(log: InterventionLogEntry[], turn: number): WeatherIntervention[] {
+  return log.flatMap(entry =>
+    entry.interventions.filter((i): i is WeatherIntervention =>
+      (i.kind === 'change_climate'
+        || (i.kind === 'natural_disaster' && WEATHER_DISASTERS.some(d => i.disaster.toLowerCase().includes(d))))
+      && turn >= entry.turn && turn < entry.turn + i.duration
+    )
+  );
+}